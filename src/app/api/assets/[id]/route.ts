@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAssetStore, isValidAssetId, type ByteRange } from "@/lib/assets";
+
+// Assets are content-addressed, so a URL's bytes never change
+const CACHE_CONTROL = "public, max-age=31536000, immutable";
+
+// Parses a single "bytes=start-end" range; multi-range requests get the whole file
+function parseRange(header: string | null, size: number): ByteRange | "unsatisfiable" | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+
+  if (start > end || start >= size) return "unsatisfiable";
+  return { start, end };
+}
+
+async function serveAsset(request: NextRequest, id: string, includeBody: boolean) {
+  if (!isValidAssetId(id)) {
+    return NextResponse.json({ error: "Invalid asset id" }, { status: 400 });
+  }
+
+  const store = getAssetStore();
+  const info = await store.stat(id);
+  if (!info) {
+    return NextResponse.json({ error: "Asset not found" }, { status: 404 });
+  }
+
+  const headers = new Headers({
+    "Content-Type": info.contentType,
+    "Cache-Control": CACHE_CONTROL,
+    "Accept-Ranges": "bytes",
+    ETag: `"${id}"`,
+  });
+
+  if (request.headers.get("if-none-match") === `"${id}"`) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  const range = parseRange(request.headers.get("range"), info.size);
+  if (range === "unsatisfiable") {
+    headers.set("Content-Range", `bytes */${info.size}`);
+    return new NextResponse(null, { status: 416, headers });
+  }
+
+  if (range) {
+    headers.set("Content-Range", `bytes ${range.start}-${range.end}/${info.size}`);
+    headers.set("Content-Length", String(range.end - range.start + 1));
+  } else {
+    headers.set("Content-Length", String(info.size));
+  }
+
+  const body = includeBody ? await store.read(id, range || undefined) : null;
+  return new NextResponse(body, { status: range ? 206 : 200, headers });
+}
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    return await serveAsset(request, id, true);
+  } catch (error) {
+    console.error("💥 Error serving asset:", error);
+    return NextResponse.json({ error: "Failed to read asset" }, { status: 500 });
+  }
+}
+
+export async function HEAD(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    return await serveAsset(request, id, false);
+  } catch (error) {
+    console.error("💥 Error serving asset:", error);
+    return new NextResponse(null, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readRequestBody, storeCredentialRequestSchema } from "@/lib/api-contracts";
+import {
+  CREDENTIAL_COOKIE_MAX_AGE_S,
+  credentialCookieName,
+  deleteCredential,
+  describeCredential,
+  isKeyVaultEnabled,
+  readCredential,
+  readCredentialCookies,
+  storeCredential,
+} from "@/lib/key-vault";
+import { getProvider, providerErrorBody, ProviderError } from "@/lib/providers";
+import { checkRateLimit } from "@/lib/rate-limit";
+
+// Bodies here carry raw API keys, so failures are logged by name only
+
+function cookieOptions(request: NextRequest, maxAge: number) {
+  return {
+    httpOnly: true,
+    sameSite: "strict" as const,
+    secure: request.nextUrl.protocol === "https:",
+    path: "/api",
+    maxAge,
+  };
+}
+
+function errorResponse(error: unknown, fallbackMessage: string) {
+  console.error(`💥 ${fallbackMessage}:`, (error as Error)?.name);
+  const { status, body, headers } = providerErrorBody(error, fallbackMessage);
+  return NextResponse.json(body, { status, headers });
+}
+
+export async function GET(request: NextRequest) {
+  const enabled = isKeyVaultEnabled();
+  const stored = enabled ? await Promise.all(readCredentialCookies(request).map(describeCredential)) : [];
+
+  return NextResponse.json({
+    success: true,
+    enabled,
+    credentials: stored.flatMap((credential) =>
+      credential ? [{ provider: credential.provider, hint: credential.hint, createdAt: credential.createdAt }] : []
+    ),
+  }, {
+    headers: { "Cache-Control": "no-store" }
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { provider: providerId, apiKey } = await readRequestBody(request, storeCredentialRequestSchema);
+    const provider = getProvider(providerId);
+    if (!provider.envKey) {
+      throw new ProviderError(`${provider.label} does not use an API key`, 400);
+    }
+    await checkRateLimit(request, undefined, "keys");
+
+    const cookieName = credentialCookieName(provider.id);
+    const previousId = request.cookies.get(cookieName)?.value;
+    // Posting the key this browser already stored keeps that credential rather than making another
+    const existing = !!previousId && await readCredential(previousId, provider.id) === apiKey.trim()
+      ? await describeCredential(previousId)
+      : null;
+
+    const credential = existing ?? await storeCredential(provider.id, apiKey.trim());
+    if (!existing) {
+      console.log(`🔐 Stored a ${provider.label} API key in the vault`);
+    }
+
+    // Replacing a key drops the one this browser stored before
+    if (previousId && !existing) {
+      await deleteCredential(previousId);
+    }
+
+    const response = NextResponse.json({ success: true, credential });
+    response.cookies.set(cookieName, credential.id, cookieOptions(request, CREDENTIAL_COOKIE_MAX_AGE_S));
+    return response;
+  } catch (error) {
+    return errorResponse(error, "Failed to store API key");
+  }
+}
+
+// DELETE /api/credentials?provider=google forgets this browser's key for that provider
+export async function DELETE(request: NextRequest) {
+  try {
+    const provider = getProvider(request.nextUrl.searchParams.get("provider") ?? "");
+    const cookieName = credentialCookieName(provider.id);
+    const id = request.cookies.get(cookieName)?.value;
+    if (id) {
+      await deleteCredential(id);
+    }
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.set(cookieName, "", cookieOptions(request, 0));
+    return response;
+  } catch (error) {
+    return errorResponse(error, "Failed to remove API key");
+  }
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { readFeatureFlags } from "@/lib/features";
+
+// GET /api/features tells the client which actions this deployment offers
+export async function GET() {
+  return NextResponse.json({ success: true, features: readFeatureFlags() }, {
+    headers: { "Cache-Control": "no-store" }
+  });
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { storeImages } from "@/lib/assets";
+import { generateRequestSchema, readRequestBody } from "@/lib/api-contracts";
+import { idempotencyKey, runOnce } from "@/lib/idempotency";
+import { checkFeature } from "@/lib/features";
+import { createVideoJob } from "@/lib/jobs";
+import { readUserApiKey } from "@/lib/key-vault";
+import {
+  checkImageParameters,
+  checkReferenceImages,
+  checkVariation,
+  getImageProvider,
+  getVideoProvider,
+  isVideoMode,
+  providerErrorBody,
+  resolveApiKey,
+  resolveModel,
+} from "@/lib/providers";
+import { checkRateLimit, withProviderSlot } from "@/lib/rate-limit";
+import { SchemaError } from "@/lib/schema";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readRequestBody(request, generateRequestSchema);
+    const {
+      provider: providerId = "google",
+      model: requestedModel,
+      mode = "text-to-image",
+      prompt,
+      imageBytes,
+      imageMimeType,
+      referenceImages,
+      apiKey: sentApiKey,
+      credentialId,
+      numImages,
+      guidanceScale,
+      aspectRatio,
+      seed,
+      negativePrompt,
+      variation
+    } = body;
+
+    console.log('🎯 API /generate received:', {
+      provider: providerId,
+      model: requestedModel,
+      mode,
+      hasApiKey: !!(sentApiKey || credentialId),
+      hasImageBytes: !!imageBytes,
+      referenceImages: referenceImages?.length ?? 0
+    });
+
+    // Reference images alone are enough for image-to-image; video still needs a first frame
+    const hasInputImage = !!imageBytes || (mode === "image-to-image" && !!referenceImages?.length);
+    if ((mode === "image-to-image" || mode === "image-to-video") && !hasInputImage) {
+      throw new SchemaError([{ field: "imageBytes", message: `is required for ${mode} generation` }]);
+    }
+    checkReferenceImages(mode, referenceImages);
+
+    if (isVideoMode(mode)) {
+      checkFeature(mode === "image-to-video" ? "animate" : "video");
+      const provider = getVideoProvider(providerId);
+      const model = resolveModel(provider, mode, requestedModel);
+      const userApiKey = await readUserApiKey(request, provider.id, { apiKey: sentApiKey, credentialId });
+      const apiKey = resolveApiKey(provider, userApiKey);
+      await checkRateLimit(request, userApiKey);
+
+      // The job holds a provider slot itself until the video is ready
+      const job = await runOnce(idempotencyKey(request, "generate", body, userApiKey), () =>
+        createVideoJob(provider, mode, { prompt, model, imageBytes, imageMimeType }, apiKey)
+      );
+
+      // Videos are produced by a background job; the client polls /api/jobs/:id
+      return NextResponse.json({
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        prompt,
+        provider: provider.id,
+        model
+      }, { status: 202 });
+    }
+
+    const provider = getImageProvider(providerId);
+    const model = resolveModel(provider, mode, requestedModel);
+    const userApiKey = await readUserApiKey(request, provider.id, { apiKey: sentApiKey, credentialId });
+    const apiKey = resolveApiKey(provider, userApiKey);
+    const parameters = { numImages, guidanceScale, aspectRatio, seed, negativePrompt };
+    checkImageParameters(provider, model, parameters);
+    checkVariation(mode, variation);
+    await checkRateLimit(request, userApiKey);
+
+    // Shared with the streaming route, so a request resent to either reuses the first result
+    const result = await runOnce(idempotencyKey(request, "generate", body, userApiKey), async () => {
+      const { images, seed: resultSeed, failedSlots, retries } = await withProviderSlot(
+        provider,
+        () => provider.generateImages(
+          { prompt, model, imageBytes, imageMimeType, referenceImages, variation, ...parameters },
+          apiKey
+        ),
+        provider.countCalls?.(parameters)
+      );
+      return {
+        success: true,
+        images: await storeImages(images),
+        prompt,
+        provider: provider.id,
+        model,
+        seed: resultSeed,
+        failedSlots,
+        retries
+      };
+    });
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    const err = error as Error;
+    console.error("💥 Error generating media:", {
+      message: err?.message,
+      name: err?.name
+    });
+
+    const { status, body, headers } = providerErrorBody(error, "Generation failed");
+    return NextResponse.json(body, { status, headers });
+  }
+}
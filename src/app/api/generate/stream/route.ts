@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server";
+import { generateRequestSchema, readRequestBody, type GenerateRequest } from "@/lib/api-contracts";
+import { storeImages } from "@/lib/assets";
+import { idempotencyKey, runOnce } from "@/lib/idempotency";
+import { readUserApiKey } from "@/lib/key-vault";
+import {
+  checkImageParameters,
+  checkReferenceImages,
+  checkVariation,
+  getImageProvider,
+  isVideoMode,
+  providerErrorBody,
+  ProviderError,
+  resolveApiKey,
+  resolveModel,
+  type GeneratedImage,
+  type ImageProvider,
+} from "@/lib/providers";
+import { checkRateLimit, withProviderSlot } from "@/lib/rate-limit";
+import { SchemaError } from "@/lib/schema";
+import { createEventStreamResponse } from "@/lib/sse";
+
+type StoredImage = Awaited<ReturnType<typeof storeImages>>[number];
+
+// Problems with the request itself are answered as plain JSON before any streaming starts
+function rejectRequest(error: unknown) {
+  const { status, body, headers } = providerErrorBody(error, "Generation failed");
+  return NextResponse.json(body, { status, headers });
+}
+
+/**
+ * Streaming variant of /api/generate for image modes. Emits `queued` and `log`
+ * events while the provider works, an `image` event for each image as soon as it
+ * is ready (or an `error` event with its `index` if it couldn't be stored), then
+ * a final `done` (same body as /api/generate) or `error` event without an index.
+ */
+export async function POST(request: NextRequest) {
+  let body: GenerateRequest;
+  try {
+    body = await readRequestBody(request, generateRequestSchema);
+  } catch (error) {
+    return rejectRequest(error);
+  }
+
+  const {
+    provider: providerId = "google",
+    model: requestedModel,
+    mode = "text-to-image",
+    prompt,
+    imageBytes,
+    imageMimeType,
+    referenceImages,
+    apiKey: sentApiKey,
+    credentialId,
+    numImages,
+    guidanceScale,
+    aspectRatio,
+    seed,
+    negativePrompt,
+    variation
+  } = body;
+
+  if (isVideoMode(mode)) {
+    return rejectRequest(new ProviderError("Video generation runs as a job; use /api/generate instead", 400));
+  }
+
+  if (mode === "image-to-image" && !imageBytes && !referenceImages?.length) {
+    return rejectRequest(new SchemaError([{ field: "imageBytes", message: `is required for ${mode} generation` }]));
+  }
+
+  let provider: ImageProvider, model: string, apiKey: string, requestKey: string | undefined;
+  const parameters = { numImages, guidanceScale, aspectRatio, seed, negativePrompt };
+  try {
+    provider = getImageProvider(providerId);
+    model = resolveModel(provider, mode, requestedModel);
+    const userApiKey = await readUserApiKey(request, provider.id, { apiKey: sentApiKey, credentialId });
+    apiKey = resolveApiKey(provider, userApiKey);
+    requestKey = idempotencyKey(request, "generate", body, userApiKey);
+    checkImageParameters(provider, model, parameters);
+    checkVariation(mode, variation);
+    checkReferenceImages(mode, referenceImages);
+    await checkRateLimit(request, userApiKey);
+  } catch (error) {
+    return rejectRequest(error);
+  }
+
+  return createEventStreamResponse(async (send, disconnected) => {
+    try {
+      // A resent request only gets the final event: the progress went to the first stream
+      const result = await runOnce(requestKey, async (signal) => {
+        // Each image is stored as it arrives so the final event doesn't store it twice
+        const storedImages = new Map<string, Promise<StoredImage>>();
+        const storeImage = (image: GeneratedImage) => {
+          if (!storedImages.has(image.id)) {
+            storedImages.set(image.id, storeImages([image]).then(([stored]) => stored));
+          }
+          return storedImages.get(image.id)!;
+        };
+
+        // Previews are sent as they're stored; all of them go out before the final event
+        const previews: Promise<void>[] = [];
+
+        const { images, seed: resultSeed, failedSlots, retries } = await withProviderSlot(
+          provider,
+          () => provider.generateImages(
+            { prompt, model, imageBytes, imageMimeType, referenceImages, variation, signal, ...parameters },
+            apiKey,
+            (progress) => {
+              if (progress.type === "image") {
+                previews.push(storeImage(progress.image)
+                  .then((image) => send("image", { index: progress.index, image }))
+                  .catch((error) => {
+                    console.error("💥 Error storing streamed image:", (error as Error)?.message);
+                    const { status, body } = providerErrorBody(error, "Could not store this image");
+                    send("error", { ...body, status, index: progress.index });
+                  }));
+              } else {
+                send(progress.type, progress);
+              }
+            }
+          ),
+          provider.countCalls?.(parameters)
+        );
+        await Promise.all(previews);
+
+        return {
+          success: true,
+          images: await Promise.all(images.map(storeImage)),
+          prompt,
+          provider: provider.id,
+          model,
+          seed: resultSeed,
+          failedSlots,
+          retries
+        };
+      }, disconnected);
+
+      send("done", result);
+    } catch (error) {
+      // The client left, so there's nobody to tell
+      if (disconnected.aborted) return;
+      console.error("💥 Error streaming generation:", (error as Error)?.message);
+      const { status, body } = providerErrorBody(error, "Generation failed");
+      send("error", { ...body, status });
+    }
+  });
+}
@@ -1,94 +1,80 @@
-import { GoogleGenAI } from "@google/genai";
 import { NextRequest, NextResponse } from "next/server";
+import { improveImageRequestSchema, readRequestBody } from "@/lib/api-contracts";
+import { storeImages } from "@/lib/assets";
+import { checkFeature } from "@/lib/features";
+import { idempotencyKey, runOnce } from "@/lib/idempotency";
+import { readUserApiKey } from "@/lib/key-vault";
+import { readImageSize } from "@/lib/media/image-size";
+import { getImageProvider, providerErrorBody, resolveApiKey, resolveModel } from "@/lib/providers";
+import { checkRateLimit, withProviderSlot } from "@/lib/rate-limit";
+import { SchemaError } from "@/lib/schema";
 
 export async function POST(request: NextRequest) {
   try {
-    const { originalPrompt, improvementPrompt, imageBytes, apiKey: userApiKey } = await request.json();
+    const body = await readRequestBody(request, improveImageRequestSchema);
+    const {
+      originalPrompt,
+      improvementPrompt,
+      imageBytes,
+      imageMimeType,
+      maskBytes,
+      apiKey: sentApiKey,
+      credentialId,
+      provider: providerId = "google",
+      model: requestedModel
+    } = body;
 
-    if (!originalPrompt || !improvementPrompt) {
-      console.error('❌ Missing prompts:', { hasOriginal: !!originalPrompt, hasImprovement: !!improvementPrompt });
-      return NextResponse.json({ error: "Both original and improvement prompts are required" }, { status: 400 });
-    }
+    // Zoom and pan are masked improvements too, so the flag covers them as well
+    checkFeature("improve");
 
-    if (!imageBytes) {
-      console.error('❌ Missing image data');
-      return NextResponse.json({ error: "Image data is required for improvement" }, { status: 400 });
-    }
-
-    // Use user-provided API key if available, otherwise fallback to environment variable
-    const apiKey = userApiKey || process.env.GOOGLE_AI_API_KEY;
-    
-    if (!apiKey) {
-      console.error('❌ No API key available:', { hasUserApiKey: !!userApiKey, hasEnvKey: !!process.env.GOOGLE_AI_API_KEY });
-      return NextResponse.json({ 
-        error: "No API key provided. Please add your Google AI API key in the settings." 
-      }, { status: 401 });
+    // A mask restricts the edit to the painted area instead of re-imagining the whole image
+    if (maskBytes) {
+      const imageSize = readImageSize(Buffer.from(imageBytes, "base64"));
+      const maskSize = readImageSize(Buffer.from(maskBytes, "base64"));
+      if (!maskSize) {
+        throw new SchemaError([{ field: "maskBytes", message: "must be a PNG or JPEG image" }]);
+      }
+      if (imageSize && (imageSize.width !== maskSize.width || imageSize.height !== maskSize.height)) {
+        throw new SchemaError([{ field: "maskBytes", message: "must be the same size as the image" }]);
+      }
     }
 
-    const ai = new GoogleGenAI({ apiKey });
+    const mode = maskBytes ? "inpaint" : "image-to-image";
+    const provider = getImageProvider(providerId);
+    const model = resolveModel(provider, mode, requestedModel);
+    const userApiKey = await readUserApiKey(request, provider.id, { apiKey: sentApiKey, credentialId });
+    const apiKey = resolveApiKey(provider, userApiKey);
+    await checkRateLimit(request, userApiKey);
 
     // Create the improvement prompt for image-to-image generation
-    const enhancedPrompt = `Please improve this image by: ${improvementPrompt}`;
+    const enhancedPrompt = maskBytes
+      ? `Edit the masked area: ${improvementPrompt}`
+      : `Please improve this image by: ${improvementPrompt}`;
 
-    // Generate 4 images using Gemini 2.5 Flash Image model with image input
-    const imagePromises = Array.from({ length: 4 }, async (_, index) => {
-      try {
-        const response = await ai.models.generateContent({
-          model: "gemini-2.5-flash-image-preview",
-          contents: [
-            {
-              parts: [
-                { text: enhancedPrompt },
-                { 
-                  inlineData: { 
-                    mimeType: "image/png", 
-                    data: imageBytes 
-                  }
-                }
-              ]
-            }
-          ]
-        });
-
-        // Extract image data from the response
-        const candidates = response.candidates || [];
-        for (const candidate of candidates) {
-          if (candidate.content?.parts) {
-            for (const part of candidate.content.parts) {
-              if (part.inlineData?.data) {
-                const generatedImageBytes = part.inlineData.data;
-                const mimeType = part.inlineData.mimeType || 'image/png';
-                const base64 = `data:${mimeType};base64,${generatedImageBytes}`;
-                
-                return {
-                  id: `improved-${Date.now()}-${index}`,
-                  url: base64,
-                  imageBytes: generatedImageBytes
-                };
-              }
-            }
-          }
-        }
-        
-        console.warn(`⚠️  No image data found in response for improved image ${index + 1}`);
-        return null;
-      } catch (error) {
-        console.warn(`⚠️  Failed to generate improved image ${index + 1}:`, error);
-        return null;
-      }
+    const result = await runOnce(idempotencyKey(request, "improve", body, userApiKey), async () => {
+      const { images, failedSlots, retries } = await withProviderSlot(
+        provider,
+        () => provider.generateImages(
+          { prompt: enhancedPrompt, model, imageBytes, imageMimeType, maskBytes },
+          apiKey
+        ),
+        provider.countCalls?.({})
+      );
+      return {
+        success: true,
+        images: await storeImages(images),
+        originalPrompt,
+        improvementPrompt,
+        enhancedPrompt,
+        mode,
+        provider: provider.id,
+        model,
+        failedSlots,
+        retries
+      };
     });
-    
-    // Wait for all image improvement requests to complete
-    const generatedImages = await Promise.all(imagePromises);
-    const images = generatedImages.filter(Boolean);
 
-    return NextResponse.json({ 
-      success: true, 
-      images,
-      originalPrompt,
-      improvementPrompt,
-      enhancedPrompt
-    });
+    return NextResponse.json(result);
 
   } catch (error) {
     const err = error as Error;
@@ -98,16 +84,8 @@ export async function POST(request: NextRequest) {
       name: err?.name,
       cause: err?.cause
     });
-    
-    // Return more specific error information
-    const errorMessage = err?.message || "Failed to improve image";
-    return NextResponse.json(
-      { 
-        success: false,
-        error: errorMessage,
-        details: err?.name || "Unknown error"
-      }, 
-      { status: 500 }
-    );
+
+    const { status, body, headers } = providerErrorBody(error, "Failed to improve image");
+    return NextResponse.json(body, { status, headers });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob } from "@/lib/jobs";
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = getJob(id);
+
+  if (!job) {
+    // Unknown ids include jobs lost to a server restart, so the client can stop polling
+    return NextResponse.json({ success: false, error: "Job not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true, job }, {
+    headers: { "Cache-Control": "no-store" }
+  });
+}
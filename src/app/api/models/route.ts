@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { getModelCatalog, providerErrorBody } from "@/lib/providers";
+
+// GET /api/models lists what each provider's models can do, for the settings and prompt bar
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, models: getModelCatalog() }, {
+      // Only a deploy changes the catalog
+      headers: { "Cache-Control": "public, max-age=300" }
+    });
+  } catch (error) {
+    console.error("💥 Error listing models:", (error as Error)?.message);
+    const { status, body, headers } = providerErrorBody(error, "Failed to list models");
+    return NextResponse.json(body, { status, headers });
+  }
+}
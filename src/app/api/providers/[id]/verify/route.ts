@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readRequestBody, verifyKeyRequestSchema } from "@/lib/api-contracts";
+import { readUserApiKey } from "@/lib/key-vault";
+import { getProvider, providerErrorBody, resolveApiKey } from "@/lib/providers";
+import { checkRateLimit } from "@/lib/rate-limit";
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const { apiKey: sentApiKey, credentialId } = await readRequestBody(request, verifyKeyRequestSchema);
+
+    const provider = getProvider(id);
+    const userApiKey = await readUserApiKey(request, provider.id, { apiKey: sentApiKey, credentialId });
+    const apiKey = resolveApiKey(provider, userApiKey);
+    // Limited so the endpoint can't be used to test keys in bulk
+    await checkRateLimit(request, userApiKey, "keys");
+
+    const { models } = await provider.verifyApiKey(apiKey);
+    console.log(`🔑 Verified a ${provider.label} API key (${models.length} models available)`);
+
+    return NextResponse.json({ success: true, provider: provider.id, models }, {
+      headers: { "Cache-Control": "no-store" }
+    });
+  } catch (error) {
+    console.error("💥 Error verifying API key:", (error as Error)?.message);
+    const { status, body, headers } = providerErrorBody(error, "Failed to verify API key");
+    return NextResponse.json(body, { status, headers });
+  }
+}
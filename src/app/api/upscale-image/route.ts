@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readRequestBody, upscaleImageRequestSchema } from "@/lib/api-contracts";
+import { storeImages } from "@/lib/assets";
+import { checkFeature } from "@/lib/features";
+import { idempotencyKey, runOnce } from "@/lib/idempotency";
+import { readUserApiKey } from "@/lib/key-vault";
+import {
+  getUpscaleProvider,
+  providerErrorBody,
+  resolveUpscaleApiKey,
+  resolveUpscaleModel,
+} from "@/lib/providers";
+import { checkRateLimit, withProviderSlot } from "@/lib/rate-limit";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readRequestBody(request, upscaleImageRequestSchema);
+    const {
+      imageBytes,
+      imageMimeType,
+      factor = 2,
+      apiKey: sentApiKey,
+      credentialId,
+      provider: providerId = "google",
+      model: requestedModel
+    } = body;
+
+    checkFeature("upscale");
+    const provider = getUpscaleProvider(providerId);
+    const model = resolveUpscaleModel(provider, requestedModel);
+    const userApiKey = await readUserApiKey(request, provider.id, { apiKey: sentApiKey, credentialId });
+    const apiKey = resolveUpscaleApiKey(provider, userApiKey);
+    await checkRateLimit(request, userApiKey);
+
+    const result = await runOnce(idempotencyKey(request, "upscale", body, userApiKey), async () => {
+      const { width, height, ...image } = await withProviderSlot(provider, () =>
+        provider.upscaleImage({ imageBytes, imageMimeType, model, factor }, apiKey)
+      );
+      return {
+        success: true,
+        images: await storeImages([image]),
+        factor,
+        width,
+        height,
+        provider: provider.id,
+        model
+      };
+    });
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    const err = error as Error;
+    console.error("💥 Error upscaling image:", {
+      message: err?.message,
+      stack: err?.stack,
+      name: err?.name,
+      cause: err?.cause
+    });
+
+    const { status, body, headers } = providerErrorBody(error, "Failed to upscale image");
+    return NextResponse.json(body, { status, headers });
+  }
+}
@@ -4,12 +4,21 @@ import { PromptBar } from "@/components/prompt-bar";
 import { ContentGrid } from "@/components/content-grid";
 import { useState, useCallback } from "react";
 import type { ProviderSettings } from "@/components/settings-dropdown";
+import type { ImageParameters, InputImage, ReferenceImage } from "@/lib/providers/types";
+
+type GenerateHandler = (
+  type: "image" | "video",
+  prompt: string,
+  image?: InputImage,
+  parameters?: ImageParameters,
+  referenceImages?: ReferenceImage[]
+) => void;
 
 export default function Home() {
-  const [generateHandler, setGenerateHandler] = useState<((type: "image" | "video", prompt: string, imageBytes?: string) => void) | null>(null);
+  const [generateHandler, setGenerateHandler] = useState<GenerateHandler | null>(null);
   const [providerSettingsHandler, setProviderSettingsHandler] = useState<((settings: ProviderSettings) => void) | null>(null);
 
-  const handleSetGenerator = useCallback((handler: (type: "image" | "video", prompt: string, imageBytes?: string) => void) => {
+  const handleSetGenerator = useCallback((handler: GenerateHandler) => {
     setGenerateHandler(() => handler);
   }, []);
 
@@ -1,57 +1,94 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { ImageGrid } from "@/components/image-grid";
 import { VideoGrid } from "@/components/video-grid";
 import { LoadingGrid } from "@/components/loading-grid";
-import { ApiKeyDialog } from "@/components/api-key-dialog";
+import { GenerationErrorCard } from "@/components/generation-error-card";
+import { needsFirstRunSetup, SetupWizard } from "@/components/setup-wizard";
 import { FocusedMediaView } from "@/components/focused-media-view";
 import { ImproveImageModal } from "@/components/improve-image-modal";
 import { motion } from "framer-motion";
 import type { ProviderSettings } from "@/components/settings-dropdown";
-
-interface ImageGeneration {
-  id: string;
-  prompt: string;
-  images: Array<{
-    url: string;
-    imageBytes?: string;
-    isSample?: boolean;
-  }>;
-  timestamp: Date;
-  isLoading: boolean;
-}
-
-interface VideoGeneration {
-  id: string;
-  prompt: string;
-  videos: string[];
-  timestamp: Date;
-  isLoading: boolean;
-  sourceImage?: string;
-}
-
-interface LoadingGeneration {
-  id: string;
-  prompt: string;
+import { applyImageParameterSupport, getImageParameterSupport } from "@/lib/providers/capabilities";
+import type {
+  GenerationProgress,
+  ImageParameters,
+  InputImage,
+  ProviderId,
+  ReferenceImage,
+  UpscaleFactor,
+  VariationStrength,
+} from "@/lib/providers/types";
+import {
+  createGenerationId,
+  type CompletedGeneration,
+  type FailedGeneration,
+  type Generation,
+  type GenerationParent,
+  type ImageGeneration,
+  type LoadingGeneration,
+  type PendingJobGeneration,
+} from "@/lib/generations";
+import { deleteGeneration, HISTORY_PAGE_SIZE, loadGenerations, saveGeneration } from "@/lib/history";
+import {
+  ApiRequestError,
+  createRequestId,
+  errorCodeOf,
+  generateImagesResponseSchema,
+  improveImageResponseSchema,
+  isAuthError,
+  jobResponseSchema,
+  parseApiResponse,
+  readApiResponse,
+  streamImageEventSchema,
+  upscaleImageResponseSchema,
+  videoJobResponseSchema,
+  type GenerateRequest,
+  type ImproveImageRequest,
+  type UpscaleImageRequest,
+} from "@/lib/api-contracts";
+import { useActions } from "@/lib/actions";
+import { getStoredApiKey } from "@/lib/api-keys";
+import type { Feature } from "@/lib/features";
+import { findModel, providerSupports, useModelCatalog, type ModelCapability } from "@/lib/model-catalog";
+import { fetchImage, resolveImage } from "@/lib/image-bytes";
+import { buildOutpaintInput, describeOutpaint, outpaintPrompt, type OutpaintTransform } from "@/lib/outpaint";
+import { parse } from "@/lib/schema";
+import { readEventStream } from "@/lib/sse";
+
+const JOB_POLL_INTERVAL_MS = 5000;
+
+interface GenerationRequest {
   type: "image" | "video";
-  timestamp: Date;
-  isLoading: true;
+  prompt: string;
+  provider: ProviderId;
+  model?: string;
+  // May still be downloading when the generation starts, so the loading row appears straight away
+  image?: InputImage | Promise<InputImage>;
+  referenceImages?: ReferenceImage[] | Promise<ReferenceImage[]>;
+  parameters?: ImageParameters;
+  variation?: VariationStrength;
   sourceImage?: string;
+  parent?: GenerationParent;
 }
 
-type Generation = ImageGeneration | VideoGeneration | LoadingGeneration;
-
-// Sample data for demonstration - empty for now
-const createSampleGenerations = (): Generation[] => [];
+// FAL only has an image adapter, so improve and animate fall back to Google for it
+const getEditProvider = (provider: ProviderId): ProviderId => provider === 'fal' ? 'google' : provider;
 
 export function ContentGrid({ 
   onNewGeneration,
   onImageToVideo,
   onProviderSettingsChange 
 }: { 
-  onNewGeneration?: (handler: (type: "image" | "video", prompt: string, imageBytes?: string) => void) => void;
-  onImageToVideo?: (handler: (imageUrl: string, imageBytes: string, prompt: string) => void) => void;
+  onNewGeneration?: (handler: (
+    type: "image" | "video",
+    prompt: string,
+    image?: InputImage,
+    parameters?: ImageParameters,
+    referenceImages?: ReferenceImage[]
+  ) => void) => void;
+  onImageToVideo?: (handler: (imageUrl: string, imageBytes: string | undefined, prompt: string) => void) => void;
   onProviderSettingsChange?: (handler: (settings: ProviderSettings) => void) => void;
 }) {
   const [generations, setGenerations] = useState<Generation[]>([]);
@@ -59,7 +96,10 @@ export function ContentGrid({
     provider: 'google',
     fluxModel: 'fal-ai/flux/dev'
   });
-  const [showApiKeyDialog, setShowApiKeyDialog] = useState(false);
+  const catalog = useModelCatalog();
+  const { isAvailable } = useActions();
+  // failedProvider is set when an auth failure opened the wizard
+  const [setupWizard, setSetupWizard] = useState<{ open: boolean; failedProvider?: ProviderId }>({ open: false });
   const [focusedView, setFocusedView] = useState<{
     isOpen: boolean;
     mediaItems: Array<{
@@ -70,22 +110,221 @@ export function ContentGrid({
       timestamp: Date;
       sourceImage?: string;
       imageBytes?: string;
+      generationId?: string;
+      imageIndex?: number;
+      actions?: Feature[];
     }>;
     initialIndex: number;
   }>({ isOpen: false, mediaItems: [], initialIndex: 0 });
   const [improveImageModal, setImproveImageModal] = useState<{
     isOpen: boolean;
     imageUrl: string;
-    imageBytes: string;
+    imageBytes?: string;
     originalPrompt: string;
-  }>({ isOpen: false, imageUrl: '', imageBytes: '', originalPrompt: '' });
+    // The tile being improved, so the result can link back to it
+    generationId?: string;
+    imageIndex?: number;
+  }>({ isOpen: false, imageUrl: '', originalPrompt: '' });
+  const [hasMoreHistory, setHasMoreHistory] = useState(true);
+  const isLoadingHistoryRef = useRef(false);
+  const pollingJobIdsRef = useRef(new Set<string>());
+  // How to re-run each generation started in this session, for the Retry button on its error card
+  const retryActionsRef = useRef(new Map<string, () => void>());
+  const historySentinelRef = useRef<HTMLDivElement>(null);
+
+  // Append the next page of stored history below what's already shown
+  const loadMoreHistory = useCallback(async () => {
+    if (isLoadingHistoryRef.current) return;
+    isLoadingHistoryRef.current = true;
 
-  // Initialize with sample data after mount to avoid hydration issues
+    try {
+      const page = await loadGenerations(generations.at(-1));
+      setGenerations(prev => {
+        const knownIds = new Set(prev.map(gen => gen.id));
+        return [...prev, ...page.filter(gen => !knownIds.has(gen.id))];
+      });
+      setHasMoreHistory(page.length === HISTORY_PAGE_SIZE);
+    } catch (error) {
+      console.error('Failed to load generation history:', error);
+      setHasMoreHistory(false);
+    } finally {
+      isLoadingHistoryRef.current = false;
+    }
+  }, [generations]);
+
+  // Keep loading pages while the bottom of the list is on screen
+  useEffect(() => {
+    const sentinel = historySentinelRef.current;
+    if (!sentinel || !hasMoreHistory) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) {
+        loadMoreHistory();
+      }
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMoreHistory, loadMoreHistory]);
+
+  // Add a loading placeholder at the top of the list
+  const startGeneration = useCallback((loadingGeneration: LoadingGeneration, retry: () => void) => {
+    retryActionsRef.current.set(loadingGeneration.id, retry);
+    setGenerations(prev => [loadingGeneration, ...prev]);
+  }, []);
+
+  // Swap a loading placeholder for its result and persist it to history
+  const completeGeneration = useCallback((completedGeneration: CompletedGeneration) => {
+    retryActionsRef.current.delete(completedGeneration.id);
+    setGenerations(prev => prev.map(gen => 
+      gen.id === completedGeneration.id ? completedGeneration : gen
+    ));
+    saveGeneration(completedGeneration).catch((error) => {
+      console.error('Failed to save generation to history:', error);
+    });
+  }, []);
+
+  // Replace a loading placeholder with an error card; auth failures also ask for a key straight away
+  const failGeneration = useCallback((loadingGeneration: LoadingGeneration, error: unknown) => {
+    const code = errorCodeOf(error);
+    const retryAfterMs = error instanceof ApiRequestError ? error.retryAfterMs : undefined;
+    const failedGeneration: FailedGeneration = {
+      id: loadingGeneration.id,
+      prompt: loadingGeneration.prompt,
+      type: loadingGeneration.type,
+      timestamp: loadingGeneration.timestamp,
+      isLoading: false,
+      sourceImage: loadingGeneration.sourceImage,
+      provider: loadingGeneration.provider,
+      error: {
+        code,
+        message: error instanceof Error ? error.message : 'Unknown error',
+        retryAt: retryAfterMs ? Date.now() + retryAfterMs : undefined
+      }
+    };
+    setGenerations(prev => prev.map(gen => 
+      gen.id === loadingGeneration.id ? failedGeneration : gen
+    ));
+    if (isAuthError(code)) {
+      setSetupWizard({ open: true, failedProvider: loadingGeneration.provider });
+    }
+  }, []);
+
+  const dismissFailedGeneration = (generationId: string) => {
+    retryActionsRef.current.delete(generationId);
+    setGenerations(prev => prev.filter(gen => gen.id !== generationId));
+  };
+
+  const retryFailedGeneration = (generationId: string) => {
+    const retry = retryActionsRef.current.get(generationId);
+    dismissFailedGeneration(generationId);
+    retry?.();
+  };
+
+  // Apply streamed progress to a loading entry; resolves with the final `done` or `error` payload
+  const readGenerationStream = useCallback(async (response: Response, generationId: string) => {
+    const updateLoading = (update: (gen: LoadingGeneration) => Partial<LoadingGeneration>) => {
+      setGenerations(prev => prev.map(gen => 
+        gen.id === generationId && gen.isLoading && "type" in gen ? { ...gen, ...update(gen) } : gen
+      ));
+    };
+
+    let result: unknown = {
+      success: false,
+      error: 'Generation stream ended unexpectedly'
+    };
+
+    await readEventStream(response, ({ event, data }) => {
+      if (event === 'queued') {
+        const { position } = data as Extract<GenerationProgress, { type: "queued" }>;
+        updateLoading(() => ({ progressMessage: `In queue (position ${position + 1})` }));
+      } else if (event === 'log') {
+        const { message } = data as Extract<GenerationProgress, { type: "log" }>;
+        updateLoading(() => ({ progressMessage: message }));
+      } else if (event === 'image') {
+        const { index, image } = parse(streamImageEventSchema, data);
+        updateLoading((gen) => {
+          const previewImages = [...(gen.previewImages || [])];
+          previewImages[index] = image.url;
+          return { previewImages };
+        });
+      } else if (event === 'error' && typeof (data as { index?: unknown })?.index === 'number') {
+        // One image couldn't be stored; only the final event (without an index) ends the stream
+        const { index } = data as { index: number };
+        updateLoading(() => ({ progressMessage: `Image ${index + 1} couldn't be saved` }));
+      } else if (event === 'done' || event === 'error') {
+        result = data;
+      }
+    });
+
+    return result;
+  }, []);
+
+  // Remember a started video job so it's polled now and resumed after a refresh
+  const trackVideoJob = useCallback((pendingGeneration: PendingJobGeneration) => {
+    setGenerations(prev => prev.map(gen => 
+      gen.id === pendingGeneration.id ? pendingGeneration : gen
+    ));
+    saveGeneration(pendingGeneration).catch((error) => {
+      console.error('Failed to save video job to history:', error);
+    });
+  }, []);
+
+  const pollVideoJob = useCallback(async (pendingGeneration: PendingJobGeneration) => {
+    try {
+      while (true) {
+        const response = await fetch(`/api/jobs/${pendingGeneration.jobId}`).catch(() => null);
+
+        if (response?.status === 404) {
+          throw new Error('The server lost track of this video, please try again');
+        }
+
+        // Network hiccups and server errors are retried on the next tick
+        const job = response?.ok ? parseApiResponse(await response.json(), jobResponseSchema).job : undefined;
+
+        if (job?.status === 'succeeded') {
+          completeGeneration({
+            id: pendingGeneration.id,
+            prompt: pendingGeneration.prompt,
+            videos: (job.videos || []).map(video => video.url),
+            timestamp: pendingGeneration.timestamp,
+            isLoading: false,
+            sourceImage: pendingGeneration.sourceImage,
+            provider: job.provider,
+            model: job.model
+          });
+          return;
+        }
+        if (job?.status === 'failed') {
+          throw new ApiRequestError(job.error || 'Video generation failed', job.errorCode ?? 'internal');
+        }
+
+        await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+      }
+    } catch (error) {
+      console.error('💥 Video job failed:', error);
+      failGeneration(pendingGeneration, error);
+      deleteGeneration(pendingGeneration.id).catch((deleteError) => {
+        console.error('Failed to remove video job from history:', deleteError);
+      });
+    } finally {
+      pollingJobIdsRef.current.delete(pendingGeneration.jobId);
+    }
+  }, [completeGeneration, failGeneration]);
+
+  // Follow every running video job, including ones restored from history
+  useEffect(() => {
+    generations.forEach((generation) => {
+      if (!generation.isLoading || !("jobId" in generation) || !generation.jobId) return;
+      if (pollingJobIdsRef.current.has(generation.jobId)) return;
+      pollingJobIdsRef.current.add(generation.jobId);
+      pollVideoJob({ ...generation, jobId: generation.jobId });
+    });
+  }, [generations, pollVideoJob]);
+
+  // Load settings after mount to avoid hydration issues
   useEffect(() => {
-    setGenerations(createSampleGenerations());
-    
     // Load provider settings from localStorage
-    const savedProvider = localStorage.getItem("openjourney-provider") as 'google' | 'fal';
+    const savedProvider = localStorage.getItem("openjourney-provider") as ProviderId;
     const savedFluxModel = localStorage.getItem("openjourney-flux-model");
     if (savedProvider || savedFluxModel) {
       setProviderSettings({
@@ -93,6 +332,10 @@ export function ContentGrid({
         fluxModel: savedFluxModel || 'fal-ai/flux/dev'
       });
     }
+
+    if (needsFirstRunSetup()) {
+      setSetupWizard({ open: true });
+    }
   }, []);
 
   // Handle provider settings changes
@@ -107,6 +350,21 @@ export function ContentGrid({
     }
   }, [onProviderSettingsChange]);
 
+  // A tile only offers the actions its provider has a model for
+  const canApply = (generation: ImageGeneration, capability: ModelCapability) =>
+    providerSupports(catalog, generation.provider || providerSettings.provider, capability);
+
+  // The flagged actions an image offers. Improve and animate run on the selected provider
+  // (or its stand-in), while upscaling stays with the provider that made the image.
+  const imageActions = (generation: ImageGeneration): Feature[] => {
+    const editProvider = getEditProvider(providerSettings.provider);
+    const actions: Feature[] = [];
+    if (isAvailable("improve", editProvider)) actions.push("improve");
+    if (isAvailable("animate", editProvider)) actions.push("animate");
+    if (isAvailable("upscale", generation.provider || providerSettings.provider)) actions.push("upscale");
+    return actions;
+  };
+
   // Helper function to gather all media items from generations
   const getAllMediaItems = () => {
     const mediaItems: Array<{
@@ -117,6 +375,9 @@ export function ContentGrid({
       timestamp: Date;
       sourceImage?: string;
       imageBytes?: string;
+      generationId?: string;
+      imageIndex?: number;
+      actions?: Feature[];
     }> = [];
 
     generations.forEach((generation) => {
@@ -131,6 +392,9 @@ export function ContentGrid({
               prompt: generation.prompt,
               timestamp: generation.timestamp,
               imageBytes: image.imageBytes,
+              generationId: generation.id,
+              imageIndex: index,
+              actions: imageActions(generation),
             });
           });
         } else if ('videos' in generation) {
@@ -182,212 +446,116 @@ export function ContentGrid({
     });
   };
 
-  const handleNewGeneration = useCallback(async (type: "image" | "video", prompt: string, imageBytes?: string) => {
-    console.log('🎯 ContentGrid handleNewGeneration called with:', { 
+  // Shared by the prompt bar and the per-tile Reroll and Vary actions. Retrying reuses the
+  // request id, so a request that did reach the server returns its result instead of running again
+  const runGeneration = useCallback(async (request: GenerationRequest, requestId = createRequestId()) => {
+    const {
+      type,
+      prompt,
+      provider,
+      model,
+      image,
+      referenceImages,
+      parameters = {},
+      variation,
+      sourceImage,
+      parent
+    } = request;
+    const mode = type === "image"
+      ? (image || referenceImages ? "image-to-image" : "text-to-image")
+      : (image ? "image-to-video" : "text-to-video");
+
+    console.log('🎯 ContentGrid runGeneration called with:', { 
       type, 
+      mode,
       prompt, 
-      hasImageBytes: !!imageBytes,
-      imageBytesLength: imageBytes?.length,
-      promptTrimmed: prompt.trim(),
-      promptTrimmedLength: prompt.trim().length,
-      provider: providerSettings.provider,
-      fluxModel: providerSettings.fluxModel
+      hasImage: !!image,
+      hasReferenceImages: !!referenceImages,
+      provider,
+      model,
+      parameters,
+      variation,
+      parent
     });
 
     // Get appropriate API key from localStorage based on provider
-    const userApiKey = providerSettings.provider === 'google' 
-      ? localStorage.getItem("gemini_api_key")
-      : localStorage.getItem("fal_api_key");
+    const userApiKey = getStoredApiKey(provider);
     
     const loadingGeneration: LoadingGeneration = {
-      id: `loading-${Date.now()}`,
+      id: createGenerationId("loading"),
       prompt,
       type,
       timestamp: new Date(),
+      provider,
       isLoading: true
     };
 
-    // Add new loading generation at the top
-    setGenerations(prev => [loadingGeneration, ...prev]);
+    startGeneration(loadingGeneration, () => runGeneration(request, requestId));
 
     try {
-      if (type === "image") {
-        if (providerSettings.provider === 'google') {
-          // Google AI (Gemini) generation logic
-          
-          // If both prompt and imageBytes are provided, use improve-image API
-          console.log('🔍 Checking routing conditions:', {
-            hasImageBytes: !!imageBytes,
-            hasPromptTrimmed: !!prompt.trim(),
-            willRouteToImprove: !!(imageBytes && prompt.trim())
-          });
-          
-          if (imageBytes && prompt.trim()) {
-            console.log('🎨 Routing to improve-image API for image+text generation with:', {
-              prompt,
-              hasApiKey: !!userApiKey,
-              imageBytesLength: imageBytes?.length
-            });
-
-            const response = await fetch('/api/improve-image', {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({ 
-                originalPrompt: "uploaded image",
-                improvementPrompt: prompt,
-                imageBytes: imageBytes,
-                apiKey: userApiKey
-              }),
-            });
-
-            const data = await response.json();
-
-            if (data.success) {
-              const completedGeneration: ImageGeneration = {
-                id: loadingGeneration.id,
-                prompt: data.enhancedPrompt || loadingGeneration.prompt,
-                images: data.images.map((img: { url: string; imageBytes: string }) => ({
-                  url: img.url,
-                  imageBytes: img.imageBytes
-                })),
-                timestamp: loadingGeneration.timestamp,
-                isLoading: false
-              };
-
-              setGenerations(prev => prev.map(gen => 
-                gen.id === loadingGeneration.id ? completedGeneration : gen
-              ));
-            } else {
-              console.error('❌ Image improvement failed:', {
-                error: data.error,
-                details: data.details,
-                fullResponse: data
-              });
-              throw new Error(data.error || 'Image improvement failed');
-            }
-          } else {
-            // Call Gemini API for text-only generation
-            console.log('🚀 Making API call to /api/generate-images with:', {
-              prompt,
-              hasApiKey: !!userApiKey,
-              hasImageBytes: !!imageBytes,
-              imageBytesLength: imageBytes?.length
-            });
+      const resolvedImage = await image;
+      const resolvedReferences = await referenceImages;
 
-            const response = await fetch('/api/generate-images', {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({ prompt, apiKey: userApiKey, imageBytes }),
-            });
-
-            const data = await response.json();
-
-            if (data.success) {
-              const completedGeneration: ImageGeneration = {
-                id: loadingGeneration.id,
-                prompt: loadingGeneration.prompt,
-                images: data.images.map((img: { url: string; imageBytes: string }) => ({
-                  url: img.url,
-                  imageBytes: img.imageBytes
-                })),
-                timestamp: loadingGeneration.timestamp,
-                isLoading: false
-              };
-
-              setGenerations(prev => prev.map(gen => 
-                gen.id === loadingGeneration.id ? completedGeneration : gen
-              ));
-            } else {
-              console.error('❌ Image generation failed:', {
-                error: data.error,
-                details: data.details,
-                fullResponse: data
-              });
-              throw new Error(data.error || 'Image generation failed');
-            }
-          }
-        } else {
-          // FAL.ai FLUX generation logic
-          console.log('🚀 Making API call to /api/generate-images/fal with:', {
-            prompt,
-            hasApiKey: !!userApiKey,
-            hasImageBytes: !!imageBytes,
-            model: providerSettings.fluxModel,
-            imageBytesLength: imageBytes?.length
-          });
-
-          const response = await fetch('/api/generate-images/fal', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ 
-              prompt, 
-              apiKey: userApiKey, 
-              imageBytes,
-              model: providerSettings.fluxModel,
-              numImages: 4
-            }),
-          });
+      // Images stream in tile by tile; videos start a background job
+      const response = await fetch(type === "image" ? '/api/generate/stream' : '/api/generate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          provider,
+          model,
+          mode,
+          prompt,
+          imageBytes: resolvedImage?.imageBytes,
+          imageMimeType: resolvedImage?.mimeType,
+          referenceImages: resolvedReferences,
+          apiKey: userApiKey ?? undefined,
+          requestId,
+          variation,
+          ...parameters
+        } satisfies GenerateRequest),
+      });
 
-          const data = await response.json();
-
-          if (data.success) {
-            const completedGeneration: ImageGeneration = {
-              id: loadingGeneration.id,
-              prompt: loadingGeneration.prompt,
-              images: data.images.map((img: { url: string; imageBytes: string }) => ({
-                url: img.url,
-                imageBytes: img.imageBytes
-              })),
-              timestamp: loadingGeneration.timestamp,
-              isLoading: false
-            };
-
-            setGenerations(prev => prev.map(gen => 
-              gen.id === loadingGeneration.id ? completedGeneration : gen
-            ));
-          } else {
-            console.error('❌ FAL.ai image generation failed:', {
-              error: data.error,
-              details: data.details,
-              fullResponse: data
-            });
-            throw new Error(data.error || 'FAL.ai image generation failed');
-          }
-        }
-      } else {
-        // Call Veo 3 API for text-to-video
-        const response = await fetch('/api/generate-videos', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ prompt, apiKey: userApiKey }),
+      const body = response.headers.get('Content-Type')?.includes('text/event-stream')
+        ? await readGenerationStream(response, loadingGeneration.id)
+        : await response.json().catch(() => null);
+
+      // Videos come back as a background job that the polling effect follows
+      if (type === "video") {
+        const job = parseApiResponse(body, videoJobResponseSchema);
+        trackVideoJob({
+          ...loadingGeneration,
+          jobId: job.jobId,
+          provider: job.provider,
+          model: job.model
         });
-
-        const data = await response.json();
-
-        if (data.success) {
-          const completedGeneration: VideoGeneration = {
-            id: loadingGeneration.id,
-            prompt: loadingGeneration.prompt,
-            videos: data.videos.map((vid: { url: string }) => vid.url),
-            timestamp: loadingGeneration.timestamp,
-            isLoading: false
-          };
-
-          setGenerations(prev => prev.map(gen => 
-            gen.id === loadingGeneration.id ? completedGeneration : gen
-          ));
-        } else {
-          throw new Error(data.error || 'Video generation failed');
-        }
+        return;
       }
+
+      const data = parseApiResponse(body, generateImagesResponseSchema);
+      const completedGeneration: ImageGeneration = {
+        id: loadingGeneration.id,
+        prompt: loadingGeneration.prompt,
+        images: data.images.map((img) => ({ url: img.url })),
+        timestamp: loadingGeneration.timestamp,
+        isLoading: false,
+        provider: data.provider,
+        model: data.model,
+        seed: data.seed,
+        parameters: { ...parameters, seed: data.seed },
+        failedSlots: data.failedSlots,
+        retries: data.retries,
+        sourceImage,
+        references: resolvedReferences?.map(({ imageBytes, mimeType, role }) => ({
+          url: `data:${mimeType};base64,${imageBytes}`,
+          role
+        })),
+        variation,
+        parent
+      };
+
+      completeGeneration(completedGeneration);
     } catch (error) {
       console.error('💥 Generation failed:', {
         error: error,
@@ -398,106 +566,271 @@ export function ContentGrid({
         hasUserApiKey: !!userApiKey
       });
       
-      // Remove the loading generation on error
-      setGenerations(prev => prev.filter(gen => gen.id !== loadingGeneration.id));
-      
-      // Show user-friendly error message
-      const errorMessage = error instanceof Error ? error.message : 'Generation failed';
-      if (errorMessage.includes('API key')) {
-        setShowApiKeyDialog(true);
-      } else {
-        alert(`Generation failed: ${errorMessage}`);
-      }
+      failGeneration(loadingGeneration, error);
+    }
+  }, [startGeneration, completeGeneration, failGeneration, trackVideoJob, readGenerationStream]);
+
+  const handleNewGeneration = useCallback((
+    type: "image" | "video",
+    prompt: string,
+    image?: InputImage,
+    parameters: ImageParameters = {},
+    referenceImages: ReferenceImage[] = []
+  ) => {
+    const hasReferences = type === "image" && referenceImages.length > 0;
+    // Only FAL routes image requests to a user-selected model; everything else uses the provider default.
+    // Picks that can't read input images fall back to the default edit model when there are some.
+    const readsInputImages = !!findModel(catalog, 'fal', providerSettings.fluxModel)?.capabilities.imageToImage;
+    const usesFluxModel = providerSettings.provider === 'fal' && type === "image" &&
+      (!(image || hasReferences) || readsInputImages);
+    return runGeneration({
+      type,
+      prompt,
+      provider: providerSettings.provider,
+      model: usesFluxModel ? providerSettings.fluxModel : undefined,
+      image,
+      referenceImages: hasReferences ? referenceImages : undefined,
+      parameters,
+      // Uploaded images have no URL, so keep them inline for rerolling
+      sourceImage: type === "image" && image ? `data:${image.mimeType};base64,${image.imageBytes}` : undefined
+    });
+  }, [catalog, providerSettings, runGeneration]);
+
+  // Re-run a generation's prompt and parameters with a fresh seed
+  const handleReroll = useCallback((generation: ImageGeneration) => {
+    return runGeneration({
+      type: "image",
+      prompt: generation.prompt,
+      provider: generation.provider || providerSettings.provider,
+      model: generation.model,
+      image: generation.sourceImage ? fetchImage(generation.sourceImage) : undefined,
+      referenceImages: generation.references && Promise.all(generation.references.map(async ({ url, role }) => ({
+        ...await fetchImage(url),
+        role
+      }))),
+      parameters: { ...generation.parameters, seed: undefined },
+      variation: generation.variation,
+      sourceImage: generation.sourceImage,
+      parent: { id: generation.id, action: "reroll" }
+    });
+  }, [providerSettings.provider, runGeneration]);
+
+  // Feed one tile back through image-to-image; the server picks the provider's edit model
+  const handleVaryImage = useCallback((generation: ImageGeneration, imageIndex: number, strength: VariationStrength) => {
+    const image = generation.images[imageIndex];
+    const provider = generation.provider || providerSettings.provider;
+    const parameters = { ...generation.parameters, seed: undefined };
+    return runGeneration({
+      type: "image",
+      prompt: generation.prompt,
+      provider,
+      // Stored images are only URLs, so download their bytes for the provider
+      image: resolveImage(image.url, image.imageBytes),
+      parameters: applyImageParameterSupport(parameters, getImageParameterSupport(provider)),
+      variation: strength,
+      sourceImage: image.url,
+      parent: { id: generation.id, action: strength === "subtle" ? "vary-subtle" : "vary-strong", imageIndex }
+    });
+  }, [providerSettings.provider, runGeneration]);
+
+  // Upscaling keeps the prompt but produces a single, larger image linked to its source tile
+  const handleUpscaleImage = useCallback(async (generation: ImageGeneration, imageIndex: number, factor: UpscaleFactor, requestId = createRequestId()) => {
+    const image = generation.images[imageIndex];
+    const provider = generation.provider || providerSettings.provider;
+    const userApiKey = getStoredApiKey(provider);
+
+    const loadingGeneration: LoadingGeneration = {
+      id: createGenerationId("upscale-loading"),
+      prompt: generation.prompt,
+      type: "image",
+      timestamp: new Date(),
+      provider,
+      isLoading: true,
+      progressMessage: `Upscaling image ${imageIndex + 1} ${factor}x`
+    };
+
+    startGeneration(loadingGeneration, () => handleUpscaleImage(generation, imageIndex, factor, requestId));
+
+    try {
+      const { imageBytes, mimeType } = await resolveImage(image.url, image.imageBytes);
+      const response = await fetch('/api/upscale-image', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          imageBytes,
+          imageMimeType: mimeType,
+          factor,
+          apiKey: userApiKey ?? undefined,
+          requestId,
+          provider
+        } satisfies UpscaleImageRequest),
+      });
+
+      const data = await readApiResponse(response, upscaleImageResponseSchema);
+
+      completeGeneration({
+        id: loadingGeneration.id,
+        prompt: generation.prompt,
+        images: data.images.map((img) => ({ url: img.url })),
+        timestamp: loadingGeneration.timestamp,
+        isLoading: false,
+        provider: data.provider,
+        model: data.model,
+        parent: { id: generation.id, action: factor === 2 ? "upscale-2x" : "upscale-4x", imageIndex },
+        resolution: data.width && data.height ? { width: data.width, height: data.height } : undefined
+      });
+    } catch (error) {
+      console.error('💥 Upscaling failed:', error);
+      failGeneration(loadingGeneration, error);
     }
-  }, [providerSettings]);
+  }, [providerSettings.provider, startGeneration, completeGeneration, failGeneration]);
+
+  // Zoom out and pan pad the image client-side, then inpaint the new border through /api/improve-image
+  const handleOutpaintImage = useCallback(async (generation: ImageGeneration, imageIndex: number, transform: OutpaintTransform, requestId = createRequestId()) => {
+    const image = generation.images[imageIndex];
+    const provider = generation.provider || providerSettings.provider;
+    const userApiKey = getStoredApiKey(provider);
 
-  const handleImageToVideo = useCallback(async (imageUrl: string, imageBytes: string, prompt: string) => {
-    // Get user's API key from localStorage
-    const userApiKey = localStorage.getItem("gemini_api_key");
+    const loadingGeneration: LoadingGeneration = {
+      id: createGenerationId("outpaint-loading"),
+      prompt: generation.prompt,
+      type: "image",
+      timestamp: new Date(),
+      provider,
+      isLoading: true,
+      progressMessage: `${describeOutpaint(transform)} on image ${imageIndex + 1}`
+    };
+
+    startGeneration(loadingGeneration, () => handleOutpaintImage(generation, imageIndex, transform, requestId));
+
+    try {
+      const source = await resolveImage(image.url, image.imageBytes);
+      const { imageBytes, maskBytes } = await buildOutpaintInput(source, transform);
+      const response = await fetch('/api/improve-image', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          originalPrompt: generation.prompt,
+          improvementPrompt: outpaintPrompt(generation.prompt),
+          imageBytes,
+          imageMimeType: "image/png",
+          maskBytes,
+          apiKey: userApiKey ?? undefined,
+          requestId,
+          provider
+        } satisfies ImproveImageRequest),
+      });
+
+      const data = await readApiResponse(response, improveImageResponseSchema);
+
+      completeGeneration({
+        id: loadingGeneration.id,
+        prompt: generation.prompt,
+        images: data.images.map((img) => ({ url: img.url })),
+        timestamp: loadingGeneration.timestamp,
+        isLoading: false,
+        provider: data.provider,
+        model: data.model,
+        parent: { id: generation.id, action: "outpaint", imageIndex, transform },
+        failedSlots: data.failedSlots,
+        retries: data.retries
+      });
+    } catch (error) {
+      console.error('💥 Outpainting failed:', error);
+      failGeneration(loadingGeneration, error);
+    }
+  }, [providerSettings.provider, startGeneration, completeGeneration, failGeneration]);
+
+  // The focused view only knows which tile is showing, so look its generation up
+  const handleFocusedUpscale = (generationId: string, imageIndex: number, factor: UpscaleFactor) => {
+    const generation = generations.find(gen => gen.id === generationId);
+    if (generation && "images" in generation) {
+      handleUpscaleImage(generation, imageIndex, factor);
+    }
+  };
+
+  const handleImageToVideo = useCallback(async (imageUrl: string, imageBytes: string | undefined, prompt: string, requestId = createRequestId()) => {
+    const provider = getEditProvider(providerSettings.provider);
+    const userApiKey = getStoredApiKey(provider);
     
     const loadingGeneration: LoadingGeneration = {
-      id: `video-loading-${Date.now()}`,
+      id: createGenerationId("video-loading"),
       prompt: `${prompt} - animated video`,
       type: "video",
       timestamp: new Date(),
+      provider,
       isLoading: true,
       sourceImage: imageUrl
     };
 
-    // Add new loading generation at the top
-    setGenerations(prev => [loadingGeneration, ...prev]);
+    startGeneration(loadingGeneration, () => handleImageToVideo(imageUrl, imageBytes, prompt, requestId));
 
     try {
-      const response = await fetch('/api/image-to-video', {
+      // Stored images are only URLs, so download their bytes for the provider
+      const source = await resolveImage(imageUrl, imageBytes);
+      const response = await fetch('/api/generate', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ 
+          provider,
+          mode: "image-to-video",
           prompt: `${prompt} - animated video`,
-          imageBytes,
-          apiKey: userApiKey
-        }),
+          imageBytes: source.imageBytes,
+          imageMimeType: source.mimeType,
+          apiKey: userApiKey ?? undefined,
+          requestId
+        } satisfies GenerateRequest),
       });
 
-      const data = await response.json();
-
-      if (data.success) {
-        const completedGeneration: VideoGeneration = {
-          id: loadingGeneration.id,
-          prompt: loadingGeneration.prompt,
-          videos: data.videos.map((vid: { url: string }) => vid.url),
-          timestamp: loadingGeneration.timestamp,
-          isLoading: false,
-          sourceImage: imageUrl
-        };
-
-        setGenerations(prev => prev.map(gen => 
-          gen.id === loadingGeneration.id ? completedGeneration : gen
-        ));
-      } else {
-        throw new Error(data.error || 'Video conversion failed');
-      }
+      const job = await readApiResponse(response, videoJobResponseSchema);
+      trackVideoJob({
+        ...loadingGeneration,
+        jobId: job.jobId,
+        provider: job.provider,
+        model: job.model
+      });
     } catch (error) {
       console.error('Video conversion failed:', error);
-      // Remove the loading generation on error
-      setGenerations(prev => prev.filter(gen => gen.id !== loadingGeneration.id));
-      
-      // Show user-friendly error message
-      const errorMessage = error instanceof Error ? error.message : 'Video conversion failed';
-      if (errorMessage.includes('API key')) {
-        setShowApiKeyDialog(true);
-      } else {
-        alert(`Video conversion failed: ${errorMessage}`);
-      }
+      failGeneration(loadingGeneration, error);
     }
-  }, []);
+  }, [providerSettings.provider, startGeneration, failGeneration, trackVideoJob]);
 
-  const handleOpenImproveModal = (imageUrl: string, imageBytes: string, originalPrompt: string) => {
+  const handleOpenImproveModal = (imageUrl: string, imageBytes: string | undefined, originalPrompt: string, generationId?: string, imageIndex?: number) => {
     setImproveImageModal({
       isOpen: true,
       imageUrl,
       imageBytes,
-      originalPrompt
+      originalPrompt,
+      generationId,
+      imageIndex
     });
   };
 
-  const handleImproveImage = async (improvementPrompt: string) => {
-    // Get user's API key from localStorage
-    const userApiKey = localStorage.getItem("gemini_api_key");
+  const handleImproveImage = async (improvementPrompt: string, maskBytes?: string, requestId = createRequestId()) => {
+    // FAL can inpaint with FLUX Fill, so masked edits stay on the selected provider
+    const provider = maskBytes ? providerSettings.provider : getEditProvider(providerSettings.provider);
+    const userApiKey = getStoredApiKey(provider);
     
     const loadingGeneration: LoadingGeneration = {
-      id: `improve-loading-${Date.now()}`,
+      id: createGenerationId("improve-loading"),
       prompt: `${improveImageModal.originalPrompt} - improved: ${improvementPrompt}`,
       type: "image",
       timestamp: new Date(),
-      isLoading: true
+      provider,
+      isLoading: true,
+      sourceImage: improveImageModal.imageUrl
     };
 
-    // Add new loading generation at the top
-    setGenerations(prev => [loadingGeneration, ...prev]);
+    startGeneration(loadingGeneration, () => handleImproveImage(improvementPrompt, maskBytes, requestId));
 
     try {
+      const { imageBytes, mimeType } = await resolveImage(improveImageModal.imageUrl, improveImageModal.imageBytes);
       const response = await fetch('/api/improve-image', {
         method: 'POST',
         headers: {
@@ -506,36 +839,34 @@ export function ContentGrid({
         body: JSON.stringify({ 
           originalPrompt: improveImageModal.originalPrompt,
           improvementPrompt,
-          imageBytes: improveImageModal.imageBytes,
-          apiKey: userApiKey
-        }),
+          imageBytes,
+          imageMimeType: mimeType,
+          maskBytes,
+          apiKey: userApiKey ?? undefined,
+          requestId,
+          provider
+        } satisfies ImproveImageRequest),
       });
 
-      const data = await response.json();
-
-      if (data.success) {
-        const completedGeneration: ImageGeneration = {
-          id: loadingGeneration.id,
-          prompt: data.enhancedPrompt || loadingGeneration.prompt,
-          images: data.images.map((img: { url: string; imageBytes: string }) => ({
-            url: img.url,
-            imageBytes: img.imageBytes
-          })),
-          timestamp: loadingGeneration.timestamp,
-          isLoading: false
-        };
-
-        setGenerations(prev => prev.map(gen => 
-          gen.id === loadingGeneration.id ? completedGeneration : gen
-        ));
-      } else {
-        console.error('❌ Image improvement failed:', {
-          error: data.error,
-          details: data.details,
-          fullResponse: data
-        });
-        throw new Error(data.error || 'Image improvement failed');
-      }
+      const data = await readApiResponse(response, improveImageResponseSchema);
+      const completedGeneration: ImageGeneration = {
+        id: loadingGeneration.id,
+        prompt: data.enhancedPrompt || loadingGeneration.prompt,
+        images: data.images.map((img) => ({ url: img.url })),
+        timestamp: loadingGeneration.timestamp,
+        isLoading: false,
+        provider: data.provider,
+        model: data.model,
+        sourceImage: improveImageModal.imageUrl,
+        // Without the mask and instructions a Reroll can't redo the edit, so the link also hides it
+        parent: improveImageModal.generationId
+          ? { id: improveImageModal.generationId, action: "improve", imageIndex: improveImageModal.imageIndex }
+          : undefined,
+        failedSlots: data.failedSlots,
+        retries: data.retries
+      };
+
+      completeGeneration(completedGeneration);
     } catch (error) {
       console.error('💥 Image improvement failed:', {
         error: error,
@@ -544,17 +875,7 @@ export function ContentGrid({
         improvementPromptLength: improvementPrompt.length,
         hasUserApiKey: !!userApiKey
       });
-      
-      // Remove the loading generation on error
-      setGenerations(prev => prev.filter(gen => gen.id !== loadingGeneration.id));
-      
-      // Show user-friendly error message
-      const errorMessage = error instanceof Error ? error.message : 'Image improvement failed';
-      if (errorMessage.includes('API key')) {
-        setShowApiKeyDialog(true);
-      } else {
-        alert(`Image improvement failed: ${errorMessage}`);
-      }
+      failGeneration(loadingGeneration, error);
     }
   };
 
@@ -568,12 +889,26 @@ export function ContentGrid({
     }
   }, [onNewGeneration, onImageToVideo, handleNewGeneration, handleImageToVideo]);
 
+  // Actions left out of an ImageGrid's props don't appear on its tiles
+  const imageGridHandlers = (generation: ImageGeneration) => {
+    const actions = imageActions(generation);
+    return {
+      onImageToVideo: actions.includes("animate") ? handleImageToVideo : undefined,
+      onImageImprove: actions.includes("improve") ? handleOpenImproveModal : undefined,
+      onVary: canApply(generation, "imageToImage") ? handleVaryImage : undefined,
+      onUpscale: actions.includes("upscale") ? handleUpscaleImage : undefined,
+      // Zoom and pan are masked improvements made by the image's own provider
+      onOutpaint: actions.includes("improve") && canApply(generation, "maskEdit") ? handleOutpaintImage : undefined,
+    };
+  };
+
   return (
     <>
       <div className="space-y-8">
       {generations.map((generation) => (
         <motion.div
           key={generation.id}
+          id={`generation-${generation.id}`}
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ duration: 0.5 }}
@@ -583,13 +918,23 @@ export function ContentGrid({
               prompt={generation.prompt}
               type={"type" in generation ? generation.type : "image"}
               sourceImage={"sourceImage" in generation ? generation.sourceImage : undefined}
+              startedAt={generation.timestamp}
+              previewImages={"previewImages" in generation ? generation.previewImages : undefined}
+              progressMessage={"progressMessage" in generation ? generation.progressMessage : undefined}
+            />
+          ) : "error" in generation ? (
+            <GenerationErrorCard
+              generation={generation}
+              onRetry={retryActionsRef.current.has(generation.id) ? () => retryFailedGeneration(generation.id) : undefined}
+              onAddApiKey={() => setSetupWizard({ open: true, failedProvider: generation.provider })}
+              onDismiss={() => dismissFailedGeneration(generation.id)}
             />
           ) : "images" in generation ? (
             <ImageGrid 
               generation={generation}
-              onImageToVideo={handleImageToVideo}
               onViewFullscreen={openFocusedView}
-              onImageImprove={handleOpenImproveModal}
+              onReroll={handleReroll}
+              {...imageGridHandlers(generation)}
             />
           ) : (
             <VideoGrid 
@@ -600,7 +945,10 @@ export function ContentGrid({
         </motion.div>
       ))}
       
-      {generations.length === 0 && (
+      {/* Scrolling this into view loads older generations from history */}
+      {hasMoreHistory && <div ref={historySentinelRef} className="h-px" />}
+
+      {generations.length === 0 && !hasMoreHistory && (
         <div className="text-center py-16">
           <h3 className="text-lg font-medium mb-2">Sean - create something good</h3>
           <p className="text-muted-foreground">
@@ -610,13 +958,10 @@ export function ContentGrid({
       )}
     </div>
 
-      <ApiKeyDialog
-        open={showApiKeyDialog}
-        onOpenChange={setShowApiKeyDialog}
-        onApiKeySaved={() => {
-          // Trigger a custom event to notify settings dropdown to refresh
-          window.dispatchEvent(new CustomEvent('apiKeyUpdated'));
-        }}
+      <SetupWizard
+        open={setupWizard.open}
+        onOpenChange={(open) => setSetupWizard(prev => ({ ...prev, open }))}
+        failedProvider={setupWizard.failedProvider}
       />
 
       <FocusedMediaView
@@ -626,6 +971,7 @@ export function ContentGrid({
         initialIndex={focusedView.initialIndex}
         onImageToVideo={handleImageToVideo}
         onImageImprove={handleOpenImproveModal}
+        onImageUpscale={handleFocusedUpscale}
       />
 
       <ImproveImageModal
@@ -2,10 +2,14 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Download, ChevronLeft, ChevronRight, Sparkles } from 'lucide-react';
+import { X, Download, ChevronLeft, ChevronRight, Sparkles, Maximize2, Video } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import Image from 'next/image';
+import { UPSCALE_FACTORS } from '@/lib/providers/capabilities';
+import type { Feature } from '@/lib/features';
+import type { UpscaleFactor } from '@/lib/providers/types';
+import { downloadFile } from '@/lib/download';
 
 interface MediaItem {
   id: string;
@@ -15,6 +19,11 @@ interface MediaItem {
   timestamp: Date;
   sourceImage?: string;
   imageBytes?: string;
+  // Set for generated images so actions can link their results back to the source tile
+  generationId?: string;
+  imageIndex?: number;
+  // The optional actions this image offers, given the flags and what its provider can do
+  actions?: Feature[];
 }
 
 interface FocusedMediaViewProps {
@@ -22,8 +31,9 @@ interface FocusedMediaViewProps {
   onClose: () => void;
   mediaItems: MediaItem[];
   initialIndex: number;
-  onImageToVideo?: (imageUrl: string, imageBytes: string, prompt: string) => void;
-  onImageImprove?: (imageUrl: string, imageBytes: string, originalPrompt: string) => void;
+  onImageToVideo?: (imageUrl: string, imageBytes: string | undefined, prompt: string) => void;
+  onImageImprove?: (imageUrl: string, imageBytes: string | undefined, originalPrompt: string, generationId?: string, imageIndex?: number) => void;
+  onImageUpscale?: (generationId: string, imageIndex: number, factor: UpscaleFactor) => void;
 }
 
 export function FocusedMediaView({
@@ -32,7 +42,8 @@ export function FocusedMediaView({
   mediaItems,
   initialIndex,
   onImageToVideo,
-  onImageImprove
+  onImageImprove,
+  onImageUpscale
 }: FocusedMediaViewProps) {
   const [currentIndex, setCurrentIndex] = useState(initialIndex);
   const filmStripRef = useRef<HTMLDivElement>(null);
@@ -123,13 +134,9 @@ export function FocusedMediaView({
 
   const handleDownload = () => {
     if (!currentItem) return;
-    
-    const link = document.createElement('a');
-    link.href = currentItem.url;
-    link.download = `${currentItem.type}_${currentItem.id}.${currentItem.type === 'video' ? 'mp4' : 'png'}`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadFile(currentItem.url, `${currentItem.type}_${currentItem.id}`).catch((error) => {
+      console.error('Download failed:', error);
+    });
   };
 
   const formatTimestamp = (date: Date) => {
@@ -243,10 +250,10 @@ export function FocusedMediaView({
                 Download {currentItem.type}
               </Button>
 
-              {currentItem.type === 'image' && onImageImprove && currentItem.imageBytes && (
+              {currentItem.type === 'image' && onImageImprove && currentItem.actions?.includes('improve') && (
                 <Button
                   onClick={() => {
-                    onImageImprove(currentItem.url, currentItem.imageBytes!, currentItem.prompt);
+                    onImageImprove(currentItem.url, currentItem.imageBytes, currentItem.prompt, currentItem.generationId, currentItem.imageIndex);
                     onClose();
                   }}
                   className="w-full justify-start"
@@ -257,19 +264,38 @@ export function FocusedMediaView({
                 </Button>
               )}
 
-{/* Video generation temporarily hidden
-              {currentItem.type === 'image' && onImageToVideo && (
+              {currentItem.type === 'image' && onImageUpscale && currentItem.actions?.includes('upscale') && currentItem.generationId && (
+                <div className="grid grid-cols-2 gap-2">
+                  {UPSCALE_FACTORS.map((factor) => (
+                    <Button
+                      key={factor}
+                      onClick={() => {
+                        onImageUpscale(currentItem.generationId!, currentItem.imageIndex ?? 0, factor);
+                        onClose();
+                      }}
+                      className="w-full justify-start"
+                      variant="outline"
+                    >
+                      <Maximize2 className="w-4 h-4 mr-2" />
+                      Upscale {factor}x
+                    </Button>
+                  ))}
+                </div>
+              )}
+
+              {currentItem.type === 'image' && onImageToVideo && currentItem.actions?.includes('animate') && (
                 <Button
                   onClick={() => {
+                    onImageToVideo(currentItem.url, currentItem.imageBytes, currentItem.prompt);
                     onClose();
                   }}
                   className="w-full justify-start"
                   variant="outline"
                 >
-                  Animate with Veo 2
+                  <Video className="w-4 h-4 mr-2" />
+                  Animate
                 </Button>
               )}
-              */}
             </div>
           </div>
 
@@ -450,10 +476,10 @@ export function FocusedMediaView({
                     Download {currentItem.type}
                   </Button>
 
-                  {currentItem.type === 'image' && onImageImprove && currentItem.imageBytes && (
+                  {currentItem.type === 'image' && onImageImprove && currentItem.actions?.includes('improve') && (
                     <Button
                       onClick={() => {
-                        onImageImprove(currentItem.url, currentItem.imageBytes!, currentItem.prompt);
+                        onImageImprove(currentItem.url, currentItem.imageBytes, currentItem.prompt, currentItem.generationId, currentItem.imageIndex);
                         onClose();
                       }}
                       className="w-full justify-start"
@@ -464,19 +490,38 @@ export function FocusedMediaView({
                     </Button>
                   )}
 
-{/* Video generation temporarily hidden
-                  {currentItem.type === 'image' && onImageToVideo && (
+                  {currentItem.type === 'image' && onImageUpscale && currentItem.actions?.includes('upscale') && currentItem.generationId && (
+                    <div className="grid grid-cols-2 gap-2">
+                      {UPSCALE_FACTORS.map((factor) => (
+                        <Button
+                          key={factor}
+                          onClick={() => {
+                            onImageUpscale(currentItem.generationId!, currentItem.imageIndex ?? 0, factor);
+                            onClose();
+                          }}
+                          className="w-full justify-start"
+                          variant="outline"
+                        >
+                          <Maximize2 className="w-4 h-4 mr-2" />
+                          Upscale {factor}x
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+
+                  {currentItem.type === 'image' && onImageToVideo && currentItem.actions?.includes('animate') && (
                     <Button
                       onClick={() => {
+                        onImageToVideo(currentItem.url, currentItem.imageBytes, currentItem.prompt);
                         onClose();
                       }}
                       className="w-full justify-start"
                       variant="outline"
                     >
-                      Animate with Veo 2
+                      <Video className="w-4 h-4 mr-2" />
+                      Animate
                     </Button>
                   )}
-                  */}
                 </div>
               </div>
 
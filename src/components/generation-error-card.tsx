@@ -0,0 +1,107 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertTriangleIcon, KeyIcon, RotateCcwIcon, XIcon } from "lucide-react";
+import { isAuthError } from "@/lib/api-contracts";
+import type { FailedGeneration } from "@/lib/generations";
+import type { ErrorCode } from "@/lib/providers/types";
+
+const ERROR_DESCRIPTIONS: Record<ErrorCode, { title: string; hint: string }> = {
+  auth_missing: { title: "API key needed", hint: "Add an API key for this provider, then retry." },
+  auth_invalid: { title: "API key rejected", hint: "Check the key in settings, then retry." },
+  quota_exceeded: { title: "Quota exceeded", hint: "Wait a moment or top up your provider account." },
+  rate_limited: { title: "Too many requests", hint: "This server limits how often you can generate." },
+  feature_disabled: { title: "Not available here", hint: "This server has turned this feature off." },
+  safety_blocked: { title: "Blocked by safety filters", hint: "Try rewording the prompt or using a different image." },
+  timeout: { title: "Timed out", hint: "The provider took too long to answer. Retrying usually works." },
+  provider_unavailable: { title: "Provider unavailable", hint: "The provider could not be reached. Try again shortly." },
+  invalid_input: { title: "Request rejected", hint: "Adjust the prompt or settings and try again." },
+  internal: { title: "Generation failed", hint: "Something went wrong on our side." },
+};
+
+interface GenerationErrorCardProps {
+  generation: FailedGeneration;
+  // Missing for generations that can't be re-run, such as video jobs restored from history
+  onRetry?: () => void;
+  onAddApiKey: () => void;
+  onDismiss: () => void;
+}
+
+const secondsUntil = (time = 0) => Math.max(0, Math.ceil((time - Date.now()) / 1000));
+
+// Seconds left before a rate-limited request is worth retrying, ticking down to 0
+function useRetryCountdown(retryAt?: number) {
+  const [seconds, setSeconds] = useState(() => secondsUntil(retryAt));
+
+  useEffect(() => {
+    if (!retryAt) return;
+    const timer = setInterval(() => {
+      const remaining = secondsUntil(retryAt);
+      setSeconds(remaining);
+      if (remaining === 0) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  return seconds;
+}
+
+export function GenerationErrorCard({ generation, onRetry, onAddApiKey, onDismiss }: GenerationErrorCardProps) {
+  const { code, message, retryAt } = generation.error;
+  const { title, hint } = ERROR_DESCRIPTIONS[code];
+  const retryInSeconds = useRetryCountdown(retryAt);
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-6">
+      <div className="flex-1">
+        <Card className="border-destructive/40 bg-destructive/5 p-6">
+          <div className="flex items-start gap-3">
+            <AlertTriangleIcon className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+            <div className="space-y-1 min-w-0">
+              <h3 className="font-medium text-foreground">{title}</h3>
+              <p className="text-sm text-muted-foreground">{hint}</p>
+              <p className="text-xs text-muted-foreground break-words">{message}</p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2 mt-4">
+            {onRetry && (
+              <Button size="sm" onClick={onRetry} disabled={retryInSeconds > 0}>
+                <RotateCcwIcon className="w-4 h-4 mr-2" />
+                {retryInSeconds > 0 ? `Retry in ${retryInSeconds}s` : "Retry"}
+              </Button>
+            )}
+            {isAuthError(code) && (
+              <Button size="sm" variant="outline" onClick={onAddApiKey}>
+                <KeyIcon className="w-4 h-4 mr-2" />
+                Add API key
+              </Button>
+            )}
+            <Button size="sm" variant="ghost" onClick={onDismiss}>
+              <XIcon className="w-4 h-4 mr-2" />
+              Dismiss
+            </Button>
+          </div>
+        </Card>
+      </div>
+
+      {/* Prompt information - right side */}
+      <div className="w-full lg:w-80 flex-shrink-0">
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Badge variant="outline" className="text-xs">
+              {generation.type === "image" ? "Images" : "Video"}
+            </Badge>
+            <span className="text-xs text-destructive">Failed</span>
+          </div>
+          <h3 className="font-medium text-foreground text-lg leading-relaxed">
+            {generation.prompt}
+          </h3>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SlidersHorizontalIcon } from "lucide-react";
+import type { CatalogModel } from "@/lib/api-contracts";
+import { formatPrice } from "@/lib/model-catalog";
+import { createRandomSeed, MAX_SEED, type ImageParameterSupport } from "@/lib/providers/capabilities";
+import type { ImageParameters } from "@/lib/providers/types";
+
+// Select needs a non-empty value, so this stands in for "let the model decide"
+const DEFAULT_VALUE = "default";
+
+interface GenerationParametersDropdownProps {
+  parameters: ImageParameters;
+  support: ImageParameterSupport;
+  // The model the next generation will use, when the catalog has loaded
+  model?: CatalogModel | null;
+  onChange: (parameters: ImageParameters) => void;
+  disabled?: boolean;
+}
+
+const parseNumber = (value: string) => value.trim() === "" ? undefined : Number(value);
+
+// Providers only accept whole seeds in 0..MAX_SEED, so anything else typed is pulled into range
+const parseSeed = (value: string) => {
+  const seed = parseNumber(value);
+  return seed === undefined || Number.isNaN(seed) ? undefined : Math.min(Math.max(Math.round(seed), 0), MAX_SEED);
+};
+
+export function GenerationParametersDropdown({ parameters, support, model, onChange, disabled }: GenerationParametersDropdownProps) {
+  const update = (changes: Partial<ImageParameters>) => onChange({ ...parameters, ...changes });
+  const hasCustomParameters = Object.values(parameters).some(value => value !== undefined && value !== "");
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 relative"
+          disabled={disabled}
+          title="Generation parameters"
+        >
+          <SlidersHorizontalIcon className="w-4 h-4" />
+          {hasCustomParameters && (
+            <span className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-primary" />
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 max-w-[calc(100vw-2rem)] p-4">
+        <div className="space-y-4">
+          {model && (
+            <p className="text-xs text-muted-foreground">
+              {model.label}{model.price && ` · ${formatPrice(model.price)}`}
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Images</Label>
+              <Select
+                value={parameters.numImages ? String(parameters.numImages) : DEFAULT_VALUE}
+                onValueChange={(value) => update({ numImages: value === DEFAULT_VALUE ? undefined : Number(value) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_VALUE}>Default</SelectItem>
+                  {Array.from({ length: support.maxImages }, (_, index) => (
+                    <SelectItem key={index} value={String(index + 1)}>{index + 1}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Aspect ratio</Label>
+              <Select
+                value={parameters.aspectRatio || DEFAULT_VALUE}
+                onValueChange={(value) => update({ aspectRatio: value === DEFAULT_VALUE ? undefined : value })}
+                disabled={support.aspectRatios.length === 0}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_VALUE}>Default</SelectItem>
+                  {support.aspectRatios.map((ratio) => (
+                    <SelectItem key={ratio} value={ratio}>{ratio}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {support.seed && (
+            <div className="space-y-2">
+              <Label htmlFor="generation-seed" className="text-sm font-medium">Seed</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="generation-seed"
+                  type="number"
+                  min={0}
+                  max={MAX_SEED}
+                  step={1}
+                  placeholder="Random"
+                  value={parameters.seed ?? ""}
+                  onChange={(e) => update({ seed: parseSeed(e.target.value) })}
+                  className="text-xs"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => update({ seed: createRandomSeed() })}
+                  className="text-xs h-9"
+                >
+                  Pick
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Reuse a seed with the same prompt and settings to reproduce a result
+              </p>
+            </div>
+          )}
+
+          {support.guidanceScale && (
+            <div className="space-y-2">
+              <Label htmlFor="generation-guidance" className="text-sm font-medium">Guidance</Label>
+              <Input
+                id="generation-guidance"
+                type="number"
+                min={support.guidanceScale.min}
+                max={support.guidanceScale.max}
+                step={0.5}
+                placeholder={String(support.guidanceScale.default)}
+                value={parameters.guidanceScale ?? ""}
+                onChange={(e) => update({ guidanceScale: parseNumber(e.target.value) })}
+                className="text-xs"
+              />
+              <p className="text-xs text-muted-foreground">
+                Higher values follow the prompt more closely ({support.guidanceScale.min}–{support.guidanceScale.max})
+              </p>
+            </div>
+          )}
+
+          {support.negativePrompt && (
+            <div className="space-y-2">
+              <Label htmlFor="generation-negative-prompt" className="text-sm font-medium">Negative prompt</Label>
+              <Input
+                id="generation-negative-prompt"
+                placeholder="Things to leave out..."
+                value={parameters.negativePrompt ?? ""}
+                onChange={(e) => update({ negativePrompt: e.target.value || undefined })}
+                className="text-xs"
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange({})}
+              disabled={!hasCustomParameters}
+              className="text-xs h-7"
+            >
+              Reset
+            </Button>
+          </div>
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { HistoryIcon } from "lucide-react";
+import { loadGenerations } from "@/lib/history";
+
+const HISTORY_GENERATIONS = 6;
+
+interface HistoryImage {
+  url: string;
+  prompt: string;
+}
+
+interface HistoryImagePickerProps {
+  onPick: (image: HistoryImage) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Lets the prompt bar reuse a past result as an input without downloading and re-uploading it
+export function HistoryImagePicker({ onPick, disabled, className }: HistoryImagePickerProps) {
+  const [images, setImages] = useState<HistoryImage[] | null>(null);
+
+  // Read on every open so images generated since last time show up
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) return;
+    try {
+      const generations = await loadGenerations(undefined, HISTORY_GENERATIONS);
+      setImages(generations.flatMap((generation) =>
+        "images" in generation
+          ? generation.images.map(({ url }) => ({ url, prompt: generation.prompt }))
+          : []
+      ));
+    } catch (error) {
+      console.error('Failed to load history images:', error);
+      setImages([]);
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={disabled}
+          className={className}
+          title="Use an image from history"
+        >
+          <HistoryIcon className="w-4 h-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 max-w-[calc(100vw-2rem)] p-3">
+        {images === null ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : images.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No images in your history yet</p>
+        ) : (
+          <div className="grid grid-cols-4 gap-2 max-h-72 overflow-y-auto">
+            {images.map((image, index) => (
+              <button
+                key={`${image.url.slice(-32)}-${index}`}
+                type="button"
+                onClick={() => onPick(image)}
+                className="relative aspect-square rounded-md overflow-hidden hover:ring-2 hover:ring-primary"
+                title={image.prompt}
+              >
+                <Image
+                  src={image.url}
+                  alt={image.prompt}
+                  fill
+                  sizes="64px"
+                  className="object-cover"
+                />
+              </button>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -5,7 +5,15 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
-import { ClockIcon } from "lucide-react";
+import {
+  ClockIcon,
+  CornerLeftUpIcon,
+  ImageOffIcon,
+  Maximize2Icon,
+  RefreshCwIcon,
+  RotateCcwIcon,
+  ShieldAlertIcon,
+} from "lucide-react";
 import { motion } from "framer-motion";
 import Image from "next/image";
 import { LightboxModal } from "@/components/lightbox-modal";
@@ -15,32 +23,82 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { GenerationParent, ImageGeneration } from "@/lib/generations";
+import { describeOutpaint, PAN_TRANSFORMS, ZOOM_TRANSFORMS, type OutpaintTransform } from "@/lib/outpaint";
+import { UPSCALE_FACTORS } from "@/lib/providers/capabilities";
+import type { FailedImageSlot, UpscaleFactor, VariationStrength } from "@/lib/providers/types";
+import { formatPromptFlags } from "@/lib/prompt-flags";
+import { downloadFile } from "@/lib/download";
 
-interface ImageGeneration {
-  id: string;
-  prompt: string;
-  images: Array<{
-    url: string;
-    imageBytes?: string;
-    isSample?: boolean;
-  }>;
-  timestamp: Date;
-  isLoading: boolean;
-}
+// Safety categories that tripped the filter, e.g. HARM_CATEGORY_DANGEROUS_CONTENT -> "dangerous content"
+const flaggedCategories = (slot: FailedImageSlot) =>
+  (slot.safetyRatings || [])
+    .filter(({ blocked, probability }) => blocked || probability === "MEDIUM" || probability === "HIGH")
+    .map(({ category }) => category.replace(/^HARM_CATEGORY_/, "").replaceAll("_", " ").toLowerCase());
 
 interface ImageGridProps {
   generation: ImageGeneration;
-  onImageToVideo?: (imageUrl: string, imageBytes: string, prompt: string) => void;
+  onImageToVideo?: (imageUrl: string, imageBytes: string | undefined, prompt: string) => void;
   onViewFullscreen?: (generationId: string, imageIndex: number) => void;
-  onImageImprove?: (imageUrl: string, imageBytes: string, originalPrompt: string) => void;
+  onImageImprove?: (imageUrl: string, imageBytes: string | undefined, originalPrompt: string, generationId?: string, imageIndex?: number) => void;
+  onVary?: (generation: ImageGeneration, imageIndex: number, strength: VariationStrength) => void;
+  onReroll?: (generation: ImageGeneration) => void;
+  onUpscale?: (generation: ImageGeneration, imageIndex: number, factor: UpscaleFactor) => void;
+  onOutpaint?: (generation: ImageGeneration, imageIndex: number, transform: OutpaintTransform) => void;
 }
 
-export function ImageGrid({ generation, onImageToVideo, onViewFullscreen, onImageImprove }: ImageGridProps) {
+const VARIATION_BUTTONS: Array<{ strength: VariationStrength; label: string }> = [
+  { strength: "subtle", label: "Vary (Subtle)" },
+  { strength: "strong", label: "Vary (Strong)" },
+];
+
+// Results of these actions aren't a plain prompt run, so there's nothing to reroll
+const NON_REROLLABLE_ACTIONS: Array<GenerationParent["action"]> = ["upscale-2x", "upscale-4x", "outpaint", "improve"];
+
+const describeParent = ({ action, imageIndex = 0, transform }: GenerationParent) => {
+  switch (action) {
+    case "reroll":
+      return "Reroll of an earlier generation";
+    case "vary-subtle":
+    case "vary-strong":
+      return `${action === "vary-subtle" ? "Subtle" : "Strong"} variation of image ${imageIndex + 1}`;
+    case "upscale-2x":
+    case "upscale-4x":
+      return `Image ${imageIndex + 1} upscaled ${action === "upscale-2x" ? "2x" : "4x"}`;
+    case "outpaint":
+      return `${transform ? describeOutpaint(transform) : "Outpainted"} from image ${imageIndex + 1}`;
+    case "improve":
+      return `Image ${imageIndex + 1} improved`;
+  }
+};
+
+const scrollToGeneration = (generationId: string) => {
+  document.getElementById(`generation-${generationId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+};
+
+export function ImageGrid({
+  generation,
+  onImageToVideo,
+  onViewFullscreen,
+  onImageImprove,
+  onVary,
+  onReroll,
+  onUpscale,
+  onOutpaint
+}: ImageGridProps) {
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
   const [lightboxOpen, setLightboxOpen] = useState(false);
   const [lightboxIndex, setLightboxIndex] = useState(0);
   const [convertingToVideo, setConvertingToVideo] = useState<number | null>(null);
   const [improvingImage, setImprovingImage] = useState<number | null>(null);
+  const parameterFlags = formatPromptFlags(generation.parameters || {});
 
   const formatTimeAgo = (date: Date) => {
     const now = new Date();
@@ -56,23 +114,14 @@ export function ImageGrid({ generation, onImageToVideo, onViewFullscreen, onImag
 
   const handleDownload = async (imageUrl: string, index: number) => {
     try {
-      const response = await fetch(imageUrl);
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `generated-image-${index + 1}.png`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      await downloadFile(imageUrl, `generated-image-${index + 1}`);
     } catch (error) {
       console.error('Download failed:', error);
     }
   };
 
   const handleConvertToVideo = async (imageData: { url: string; imageBytes?: string; isSample?: boolean }, index: number) => {
-    if (!onImageToVideo || !imageData.imageBytes || imageData.isSample) {
+    if (!onImageToVideo || imageData.isSample) {
       console.error('Image to video conversion not available for sample images');
       return;
     }
@@ -91,7 +140,7 @@ export function ImageGrid({ generation, onImageToVideo, onViewFullscreen, onImag
   };
 
   const handleImproveImage = async (imageData: { url: string; imageBytes?: string; isSample?: boolean }, index: number) => {
-    if (!onImageImprove || !imageData.imageBytes || imageData.isSample) {
+    if (!onImageImprove || imageData.isSample) {
       console.error('Image improvement not available for sample images');
       return;
     }
@@ -100,7 +149,7 @@ export function ImageGrid({ generation, onImageToVideo, onViewFullscreen, onImag
       setImprovingImage(index);
       
       // Trigger the parent handler to open improve modal
-      onImageImprove(imageData.url, imageData.imageBytes, generation.prompt);
+      onImageImprove(imageData.url, imageData.imageBytes, generation.prompt, generation.id, index);
       
     } catch (error) {
       console.error('Image improvement failed:', error);
@@ -197,73 +246,136 @@ export function ImageGrid({ generation, onImageToVideo, onViewFullscreen, onImag
                           </Button>
                         </div>
                         <div className="flex gap-1 sm:gap-2">
-                          <TooltipProvider>
-                            <Tooltip>
-                              <TooltipTrigger asChild>
-                                <span className="flex-1">
-                                  <Button
-                                    size="sm"
-                                    variant="secondary"
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      handleImproveImage(imageData, index);
-                                    }}
-                                    disabled={improvingImage === index || !imageData.imageBytes || imageData.isSample}
-                                    className="h-6 sm:h-7 px-2 sm:px-3 text-xs font-medium w-full"
-                                  >
-                                    {improvingImage === index ? 'Improving...' : 'Improve'}
-                                  </Button>
-                                </span>
-                              </TooltipTrigger>
-                              {(improvingImage === index || !imageData.imageBytes || imageData.isSample) && (
-                                <TooltipContent side="bottom">
-                                  <p>
-                                    {improvingImage === index 
-                                      ? 'Currently improving image...'
-                                      : imageData.isSample 
-                                      ? "We can't improve sample images, but generate your own to try it out"
-                                      : "Image data not available for improvement"
-                                    }
-                                  </p>
-                                </TooltipContent>
-                              )}
-                            </Tooltip>
-                          </TooltipProvider>
-{/* Animate (video from image) temporarily hidden
-                          <TooltipProvider>
-                            <Tooltip>
-                              <TooltipTrigger asChild>
-                                <span className="flex-1">
-                                  <Button
-                                    size="sm"
-                                    variant="secondary"
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      handleConvertToVideo(imageData, index);
-                                    }}
-                                    disabled={convertingToVideo === index || !imageData.imageBytes || imageData.isSample}
-                                    className="h-6 sm:h-7 px-2 sm:px-3 text-xs font-medium w-full"
-                                  >
-                                    {convertingToVideo === index ? 'Converting...' : 'Animate'}
-                                  </Button>
-                                </span>
-                              </TooltipTrigger>
-                              {(convertingToVideo === index || !imageData.imageBytes || imageData.isSample) && (
-                                <TooltipContent side="bottom">
-                                  <p>
-                                    {convertingToVideo === index 
-                                      ? 'Currently converting to video...'
-                                      : imageData.isSample 
-                                      ? "We can't animate sample images, but generate your own to try it out"
-                                      : "Image data not available for animation"
-                                    }
-                                  </p>
-                                </TooltipContent>
-                              )}
-                            </Tooltip>
-                          </TooltipProvider>
-                          */}
+                          {onImageImprove && (
+                            <TooltipProvider>
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <span className="flex-1">
+                                    <Button
+                                      size="sm"
+                                      variant="secondary"
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        handleImproveImage(imageData, index);
+                                      }}
+                                      disabled={improvingImage === index || imageData.isSample}
+                                      className="h-6 sm:h-7 px-2 sm:px-3 text-xs font-medium w-full"
+                                    >
+                                      {improvingImage === index ? 'Improving...' : 'Improve'}
+                                    </Button>
+                                  </span>
+                                </TooltipTrigger>
+                                {(improvingImage === index || imageData.isSample) && (
+                                  <TooltipContent side="bottom">
+                                    <p>
+                                      {improvingImage === index 
+                                        ? 'Currently improving image...'
+                                        : "We can't improve sample images, but generate your own to try it out"
+                                      }
+                                    </p>
+                                  </TooltipContent>
+                                )}
+                              </Tooltip>
+                            </TooltipProvider>
+                          )}
+                          {onOutpaint && !imageData.isSample && (
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button
+                                  size="sm"
+                                  variant="secondary"
+                                  onClick={(e) => e.stopPropagation()}
+                                  className="h-6 sm:h-7 px-2 sm:px-3 text-xs font-medium flex-1"
+                                >
+                                  Zoom / Pan
+                                </Button>
+                              </DropdownMenuTrigger>
+                              {/* Menu events bubble through the portal, so keep them from opening the lightbox */}
+                              <DropdownMenuContent align="center" onClick={(e) => e.stopPropagation()}>
+                                {[ZOOM_TRANSFORMS, PAN_TRANSFORMS].map((transforms, groupIndex) => [
+                                  groupIndex > 0 && <DropdownMenuSeparator key={`separator-${groupIndex}`} />,
+                                  ...transforms.map((transform) => (
+                                    <DropdownMenuItem
+                                      key={describeOutpaint(transform)}
+                                      onSelect={() => onOutpaint(generation, index, transform)}
+                                      className="text-xs"
+                                    >
+                                      {describeOutpaint(transform)}
+                                    </DropdownMenuItem>
+                                  ))
+                                ])}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          )}
+                          {onImageToVideo && (
+                            <TooltipProvider>
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <span className="flex-1">
+                                    <Button
+                                      size="sm"
+                                      variant="secondary"
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        handleConvertToVideo(imageData, index);
+                                      }}
+                                      disabled={convertingToVideo === index || imageData.isSample}
+                                      className="h-6 sm:h-7 px-2 sm:px-3 text-xs font-medium w-full"
+                                    >
+                                      {convertingToVideo === index ? 'Converting...' : 'Animate'}
+                                    </Button>
+                                  </span>
+                                </TooltipTrigger>
+                                {(convertingToVideo === index || imageData.isSample) && (
+                                  <TooltipContent side="bottom">
+                                    <p>
+                                      {convertingToVideo === index 
+                                        ? 'Currently converting to video...'
+                                        : "We can't animate sample images, but generate your own to try it out"
+                                      }
+                                    </p>
+                                  </TooltipContent>
+                                )}
+                              </Tooltip>
+                            </TooltipProvider>
+                          )}
                         </div>
+                        {onVary && !imageData.isSample && (
+                          <div className="flex gap-1 sm:gap-2">
+                            {VARIATION_BUTTONS.map(({ strength, label }) => (
+                              <Button
+                                key={strength}
+                                size="sm"
+                                variant="secondary"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onVary(generation, index, strength);
+                                }}
+                                className="h-6 sm:h-7 px-2 sm:px-3 text-xs font-medium flex-1"
+                              >
+                                {label}
+                              </Button>
+                            ))}
+                          </div>
+                        )}
+                        {onUpscale && !imageData.isSample && (
+                          <div className="flex gap-1 sm:gap-2">
+                            {UPSCALE_FACTORS.map((factor) => (
+                              <Button
+                                key={factor}
+                                size="sm"
+                                variant="secondary"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onUpscale(generation, index, factor);
+                                }}
+                                className="h-6 sm:h-7 px-2 sm:px-3 text-xs font-medium flex-1"
+                              >
+                                Upscale {factor}x
+                              </Button>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     </motion.div>
                   </motion.div>
@@ -271,6 +383,35 @@ export function ImageGrid({ generation, onImageToVideo, onViewFullscreen, onImag
               </Card>
             </motion.div>
           ))}
+
+          {/* Slots the provider withheld, so a short set explains itself */}
+          {generation.failedSlots?.map((slot) => {
+            const categories = flaggedCategories(slot);
+            return (
+              <Card
+                key={`failed-${slot.index}`}
+                className="aspect-square border-dashed border-border/50 flex flex-col items-center justify-center gap-2 p-3 text-center"
+                title={slot.text || slot.message}
+              >
+                {slot.code === "safety_blocked" ? (
+                  <ShieldAlertIcon className="w-5 h-5 text-muted-foreground" />
+                ) : (
+                  <ImageOffIcon className="w-5 h-5 text-muted-foreground" />
+                )}
+                <span className="text-xs font-medium">
+                  {slot.code === "safety_blocked" ? "Blocked by safety filters" : "Image not generated"}
+                </span>
+                <span className="text-xs text-muted-foreground line-clamp-3">
+                  {categories.length > 0 ? `Flagged: ${categories.join(", ")}` : slot.text || slot.message}
+                </span>
+                {slot.finishReason && (
+                  <Badge variant="outline" className="text-[10px] font-mono">
+                    {slot.finishReason}
+                  </Badge>
+                )}
+              </Card>
+            );
+          })}
         </div>
       </div>
 
@@ -285,11 +426,16 @@ export function ImageGrid({ generation, onImageToVideo, onViewFullscreen, onImag
               </h3>
             </div>
             
-            {/* Format badge */}
-            <div>
+            {/* Format badge and the parameters needed to reproduce this set */}
+            <div className="flex flex-wrap gap-1">
               <Badge variant="outline" className="text-xs">
                 Images
               </Badge>
+              {parameterFlags.map((flag) => (
+                <Badge key={flag} variant="secondary" className="text-xs font-mono max-w-full truncate" title={flag}>
+                  {flag}
+                </Badge>
+              ))}
             </div>
             
             {/* Time generated */}
@@ -297,6 +443,46 @@ export function ImageGrid({ generation, onImageToVideo, onViewFullscreen, onImag
               <ClockIcon className="w-3 h-3" />
               <span className="whitespace-nowrap">{formatTimeAgo(generation.timestamp)}</span>
             </div>
+
+            {generation.resolution && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Maximize2Icon className="w-3 h-3" />
+                <span>{generation.resolution.width} × {generation.resolution.height}</span>
+              </div>
+            )}
+
+            {!!generation.retries && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <RotateCcwIcon className="w-3 h-3" />
+                <span>Retried {generation.retries} {generation.retries === 1 ? "time" : "times"} after provider errors</span>
+              </div>
+            )}
+
+            {/* Link back to the generation this one was rerolled or varied from */}
+            {generation.parent && (
+              <button
+                type="button"
+                onClick={() => scrollToGeneration(generation.parent!.id)}
+                className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <CornerLeftUpIcon className="w-3 h-3" />
+                <span>{describeParent(generation.parent)}</span>
+              </button>
+            )}
+
+            {onReroll
+              && !generation.images.some(image => image.isSample)
+              && !(generation.parent && NON_REROLLABLE_ACTIONS.includes(generation.parent.action)) && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onReroll(generation)}
+                className="h-7 text-xs"
+              >
+                <RefreshCwIcon className="w-3 h-3 mr-1" />
+                Reroll
+              </Button>
+            )}
           </div>
         </div>
       </div>
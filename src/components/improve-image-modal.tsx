@@ -1,11 +1,11 @@
 "use client";
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { SparklesIcon, ImageIcon } from 'lucide-react';
-import Image from 'next/image';
+import { MaskEditor } from '@/components/mask-editor';
 import { cn } from '@/lib/utils';
 
 interface ImproveImageModalProps {
@@ -13,7 +13,7 @@ interface ImproveImageModalProps {
   onOpenChange: (open: boolean) => void;
   imageUrl: string;
   originalPrompt: string;
-  onImproveImage: (improvementPrompt: string) => void;
+  onImproveImage: (improvementPrompt: string, maskBytes?: string) => void;
 }
 
 export function ImproveImageModal({ 
@@ -25,13 +25,19 @@ export function ImproveImageModal({
 }: ImproveImageModalProps) {
   const [improvementPrompt, setImprovementPrompt] = useState('');
   const [isImproving, setIsImproving] = useState(false);
+  const [maskBytes, setMaskBytes] = useState<string | null>(null);
+
+  // The editor remounts with the dialog, so drop any mask left from last time
+  useEffect(() => {
+    if (!open) setMaskBytes(null);
+  }, [open]);
 
   const handleImprove = async () => {
     if (!improvementPrompt.trim()) return;
     
     setIsImproving(true);
     try {
-      await onImproveImage(improvementPrompt.trim());
+      await onImproveImage(improvementPrompt.trim(), maskBytes ?? undefined);
       
       // Close dialog and reset form
       onOpenChange(false);
@@ -58,22 +64,13 @@ export function ImproveImageModal({
             Improve Image
           </DialogTitle>
           <DialogDescription className="text-center">
-            Describe how you&apos;d like to improve this image. Be specific about what you want changed.
+            Describe how you&apos;d like to improve this image. Paint over an area to change only that part.
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-6 pt-4">
-          {/* Image Preview */}
-          <div className="flex justify-center">
-            <div className="relative w-48 h-48 rounded-lg overflow-hidden border">
-              <Image
-                src={imageUrl}
-                alt="Image to improve"
-                fill
-                className="object-cover"
-              />
-            </div>
-          </div>
+          {/* Image with a paintable mask; an empty mask improves the whole image */}
+          <MaskEditor imageUrl={imageUrl} onMaskChange={setMaskBytes} />
 
           {/* Original Prompt */}
           <div className="space-y-2">
@@ -139,7 +136,9 @@ export function ImproveImageModal({
 
           {/* Help Text */}
           <p className="text-xs text-muted-foreground text-center">
-            This will generate 4 new improved versions based on your original image and suggestions.
+            {maskBytes
+              ? 'This will generate 4 new versions that only change the painted area.'
+              : 'This will generate 4 new improved versions based on your original image and suggestions.'}
           </p>
         </div>
       </DialogContent>
@@ -0,0 +1,50 @@
+"use client";
+
+import { AlertTriangleIcon, CheckCircle2Icon, Loader2Icon, XCircleIcon } from "lucide-react";
+import type { KeyCheck } from "@/lib/api-keys";
+
+// One line saying whether the provider accepted a key, plus the models it can use
+export function KeyStatus({ check }: { check?: KeyCheck }) {
+  if (!check) return null;
+
+  if (check.status === "checking") {
+    return (
+      <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <Loader2Icon className="w-3 h-3 animate-spin" />
+        Checking key...
+      </p>
+    );
+  }
+
+  if (check.status === "verified") {
+    return (
+      <div className="space-y-1">
+        <p className="flex items-center gap-1.5 text-xs text-green-600 dark:text-green-400">
+          <CheckCircle2Icon className="w-3 h-3" />
+          Verified
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {check.models.length
+            ? `Available models: ${check.models.join(", ")}`
+            : "This key can't use any of the models this app supports."}
+        </p>
+      </div>
+    );
+  }
+
+  const { icon: Icon, label, className } = {
+    invalid: { icon: XCircleIcon, label: "Invalid key", className: "text-destructive" },
+    quota_exhausted: { icon: AlertTriangleIcon, label: "Quota exhausted", className: "text-amber-600 dark:text-amber-400" },
+    unverified: { icon: AlertTriangleIcon, label: "Couldn't verify", className: "text-muted-foreground" },
+  }[check.status];
+
+  return (
+    <div className="space-y-1">
+      <p className={`flex items-center gap-1.5 text-xs ${className}`}>
+        <Icon className="w-3 h-3" />
+        {label}
+      </p>
+      <p className="text-xs text-muted-foreground break-words">{check.message}</p>
+    </div>
+  );
+}
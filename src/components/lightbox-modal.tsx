@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { DownloadIcon, XIcon, ChevronLeftIcon, ChevronRightIcon } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import Image from "next/image";
+import { downloadFile } from "@/lib/download";
 
 interface LightboxItem {
   type: "image" | "video";
@@ -58,13 +59,9 @@ export function LightboxModal({ isOpen, onClose, items, initialIndex }: Lightbox
 
   const handleDownload = () => {
     const currentItem = items[currentIndex];
-    const a = document.createElement('a');
-    a.href = currentItem.url;
-    a.download = `generated-${currentItem.type}-${currentIndex + 1}.${currentItem.type === 'image' ? 'png' : 'mp4'}`;
-    a.target = '_blank';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
+    downloadFile(currentItem.url, `generated-${currentItem.type}-${currentIndex + 1}`).catch((error) => {
+      console.error('Download failed:', error);
+    });
   };
 
   if (!isOpen || items.length === 0) return null;
@@ -3,6 +3,7 @@
 import { Card } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
+import { useEffect, useState } from "react";
 import { SparklesIcon, ClockIcon } from "lucide-react";
 import { motion } from "framer-motion";
 import Image from "next/image";
@@ -11,10 +12,26 @@ interface LoadingGridProps {
   prompt: string;
   type: "image" | "video";
   sourceImage?: string;
+  // When the generation started; video jobs resumed after a refresh keep their original time
+  startedAt?: Date;
+  // Images that have already streamed in replace their skeleton tile
+  previewImages?: Array<string | undefined>;
+  progressMessage?: string;
 }
 
-export function LoadingGrid({ prompt, type, sourceImage }: LoadingGridProps) {
-  const formatTimeAgo = () => "Just now";
+export function LoadingGrid({ prompt, type, sourceImage, startedAt, previewImages, progressMessage }: LoadingGridProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const formatElapsed = () => {
+    if (!startedAt) return "Just now";
+    const seconds = Math.max(0, Math.floor((now - startedAt.getTime()) / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")} elapsed`;
+  };
 
   return (
     <div className="flex flex-col lg:flex-row gap-6">
@@ -30,11 +47,28 @@ export function LoadingGrid({ prompt, type, sourceImage }: LoadingGridProps) {
                 transition={{ duration: 0.3, delay: index * 0.1 }}
               >
                 <Card className="overflow-hidden aspect-square border-border/50 relative">
-                  <div className="absolute inset-0">
-                    <Skeleton className="w-full h-full">
-                      <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/5 to-transparent animate-shimmer" />
-                    </Skeleton>
-                  </div>
+                  {previewImages?.[index] ? (
+                    <motion.div
+                      className="absolute inset-0"
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      transition={{ duration: 0.3 }}
+                    >
+                      <Image
+                        src={previewImages[index]!}
+                        alt={`Generated image ${index + 1}`}
+                        fill
+                        sizes="(max-width: 768px) 50vw, 25vw"
+                        className="object-cover"
+                      />
+                    </motion.div>
+                  ) : (
+                    <div className="absolute inset-0">
+                      <Skeleton className="w-full h-full">
+                        <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/5 to-transparent animate-shimmer" />
+                      </Skeleton>
+                    </div>
+                  )}
                 </Card>
               </motion.div>
             ))}
@@ -67,7 +101,7 @@ export function LoadingGrid({ prompt, type, sourceImage }: LoadingGridProps) {
           <div className="space-y-3">
             <div className="flex items-center gap-2 text-sm text-muted-foreground flex-wrap">
               <ClockIcon className="w-3 h-3" />
-              <span className="whitespace-nowrap">{formatTimeAgo()}</span>
+              <span className="whitespace-nowrap">{formatElapsed()}</span>
               <Badge variant="outline" className="text-xs">
                 {type === "image" ? "Images" : "Video"}
               </Badge>
@@ -80,6 +114,12 @@ export function LoadingGrid({ prompt, type, sourceImage }: LoadingGridProps) {
                 <span className="text-xs text-primary">Generating...</span>
               </motion.div>
             </div>
+
+            {progressMessage && (
+              <p className="text-xs text-muted-foreground truncate" title={progressMessage}>
+                {progressMessage}
+              </p>
+            )}
             
             {/* Show source image thumbnail immediately for video loading */}
             {type === "video" && sourceImage && (
@@ -0,0 +1,207 @@
+"use client";
+
+import { useRef, useState } from "react";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { BrushIcon, EraserIcon, ContrastIcon, Trash2Icon } from "lucide-react";
+
+interface MaskEditorProps {
+  imageUrl: string;
+  // Base64 PNG the size of the image, white where it should change; null when nothing is painted
+  onMaskChange: (maskBytes: string | null) => void;
+}
+
+type Tool = "brush" | "eraser";
+
+// Strokes are drawn opaque and the canvas is shown translucent, so overlapping strokes don't darken
+const MASK_COLOR = "rgb(239, 68, 68)";
+
+export function MaskEditor({ imageUrl, onMaskChange }: MaskEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<Tool>("brush");
+  // In screen pixels, so the brush feels the same whatever the image resolution
+  const [brushSize, setBrushSize] = useState(40);
+
+  const getContext = () => canvasRef.current?.getContext("2d") ?? null;
+
+  // Turns the painted strokes into a white-on-black mask at the image's own resolution
+  const exportMask = () => {
+    const canvas = canvasRef.current;
+    const context = getContext();
+    if (!canvas || !context) return;
+
+    const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+    let isPainted = false;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] > 0) {
+        isPainted = true;
+        break;
+      }
+    }
+    if (!isPainted) {
+      onMaskChange(null);
+      return;
+    }
+
+    const output = document.createElement("canvas");
+    output.width = canvas.width;
+    output.height = canvas.height;
+    const outputContext = output.getContext("2d")!;
+    outputContext.drawImage(canvas, 0, 0);
+    outputContext.globalCompositeOperation = "source-in";
+    outputContext.fillStyle = "#fff";
+    outputContext.fillRect(0, 0, output.width, output.height);
+    outputContext.globalCompositeOperation = "destination-over";
+    outputContext.fillStyle = "#000";
+    outputContext.fillRect(0, 0, output.width, output.height);
+    onMaskChange(output.toDataURL("image/png").split(",")[1]);
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * canvas.width / rect.width,
+      y: (e.clientY - rect.top) * canvas.height / rect.height,
+    };
+  };
+
+  const drawTo = (canvas: HTMLCanvasElement, point: { x: number; y: number }) => {
+    const context = getContext();
+    const from = lastPointRef.current;
+    if (!context || !from) return;
+
+    context.globalCompositeOperation = tool === "eraser" ? "destination-out" : "source-over";
+    context.strokeStyle = MASK_COLOR;
+    context.lineWidth = brushSize * canvas.width / canvas.getBoundingClientRect().width;
+    context.lineCap = "round";
+    context.lineJoin = "round";
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+    lastPointRef.current = point;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(e);
+    lastPointRef.current = point;
+    drawTo(e.currentTarget, point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    drawTo(e.currentTarget, toCanvasPoint(e));
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    exportMask();
+  };
+
+  const handleInvert = () => {
+    const canvas = canvasRef.current;
+    const context = getContext();
+    if (!canvas || !context) return;
+    // XOR with a full fill swaps painted and unpainted areas
+    context.globalCompositeOperation = "xor";
+    context.fillStyle = MASK_COLOR;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    exportMask();
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    if (canvas) {
+      getContext()?.clearRect(0, 0, canvas.width, canvas.height);
+    }
+    onMaskChange(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        className="relative mx-auto rounded-lg overflow-hidden border bg-muted"
+        style={imageSize ? {
+          aspectRatio: `${imageSize.width} / ${imageSize.height}`,
+          width: `min(100%, calc(50vh * ${imageSize.width / imageSize.height}))`,
+        } : { aspectRatio: "1 / 1", width: "min(100%, 50vh)" }}
+      >
+        <Image
+          src={imageUrl}
+          alt="Image to improve"
+          fill
+          // The mask has to match the source pixels, not a resized copy
+          unoptimized
+          className="object-contain"
+          onLoad={(e) => setImageSize({
+            width: e.currentTarget.naturalWidth,
+            height: e.currentTarget.naturalHeight,
+          })}
+        />
+        {imageSize && (
+          <canvas
+            ref={canvasRef}
+            width={imageSize.width}
+            height={imageSize.height}
+            className="absolute inset-0 w-full h-full opacity-50 touch-none cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          size="sm"
+          variant={tool === "brush" ? "secondary" : "ghost"}
+          onClick={() => setTool("brush")}
+          className="h-8 text-xs"
+        >
+          <BrushIcon className="w-3 h-3 mr-1" />
+          Brush
+        </Button>
+        <Button
+          size="sm"
+          variant={tool === "eraser" ? "secondary" : "ghost"}
+          onClick={() => setTool("eraser")}
+          className="h-8 text-xs"
+        >
+          <EraserIcon className="w-3 h-3 mr-1" />
+          Eraser
+        </Button>
+
+        <div className="flex items-center gap-2 flex-1 min-w-32">
+          <Label htmlFor="mask-brush-size" className="text-xs text-muted-foreground whitespace-nowrap">
+            Size
+          </Label>
+          <input
+            id="mask-brush-size"
+            type="range"
+            min={5}
+            max={150}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="w-full accent-primary"
+          />
+        </div>
+
+        <Button size="sm" variant="ghost" onClick={handleInvert} className="h-8 text-xs">
+          <ContrastIcon className="w-3 h-3 mr-1" />
+          Invert
+        </Button>
+        <Button size="sm" variant="ghost" onClick={handleClear} className="h-8 text-xs">
+          <Trash2Icon className="w-3 h-3 mr-1" />
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
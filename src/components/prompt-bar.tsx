@@ -1,106 +1,252 @@
 "use client";
 
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { ImageIcon, UploadIcon, X } from "lucide-react";
+import { ImageIcon, UploadIcon, VideoIcon, X } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { SettingsDropdown, type ProviderSettings } from "@/components/settings-dropdown";
+import { GenerationParametersDropdown } from "@/components/generation-parameters";
+import { HistoryImagePicker } from "@/components/history-image-picker";
+import {
+  applyImageParameterSupport,
+  getImageParameterSupport,
+  INPUT_IMAGE_TYPES,
+  MAX_INPUT_IMAGE_SIZE,
+} from "@/lib/providers/capabilities";
+import { MAX_REFERENCE_IMAGES, REFERENCE_ROLES } from "@/lib/providers/references";
+import { useActions } from "@/lib/actions";
+import { normalizeImage } from "@/lib/image-normalize";
+import { findModel, imageParameterSupportOf, useModelCatalog } from "@/lib/model-catalog";
+import { checkPromptFlags, parsePromptFlags } from "@/lib/prompt-flags";
+import type { ImageParameters, InputImage, ReferenceImage, ReferenceRole } from "@/lib/providers/types";
+import { cn } from "@/lib/utils";
 import Image from "next/image";
 
+const PARAMETERS_STORAGE_KEY = "openjourney-generation-parameters";
+
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+// The "edit" image is the one being transformed; the others only guide the result
+type ImageSlot = "edit" | ReferenceRole;
+
+interface PromptImage {
+  id: string;
+  name: string;
+  // A data URL for uploads, the stored URL for history picks; either way the bytes are read at send time
+  url: string;
+  size?: number;
+  slot: ImageSlot;
+}
+
 interface PromptBarProps {
-  onGenerate?: (type: "image" | "video", prompt: string, imageBytes?: string) => void;
+  onGenerate?: (
+    type: "image" | "video",
+    prompt: string,
+    image?: InputImage,
+    parameters?: ImageParameters,
+    referenceImages?: ReferenceImage[]
+  ) => void;
   providerSettingsHandler?: ((settings: ProviderSettings) => void) | null;
 }
 
+const readFileAsDataUrl = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+};
+
 export function PromptBar({ onGenerate, providerSettingsHandler }: PromptBarProps) {
   const [prompt, setPrompt] = useState("");
   const [isGenerating, setIsGenerating] = useState(false);
-  const [uploadedImage, setUploadedImage] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [images, setImages] = useState<PromptImage[]>([]);
+  const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>({
+    provider: 'google',
+    fluxModel: 'fal-ai/flux/dev'
+  });
+  const [parameters, setParameters] = useState<ImageParameters>({});
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const catalog = useModelCatalog();
+  const { isAvailable } = useActions();
+  const canGenerateVideo = isAvailable("video", providerSettings.provider);
 
-    // Validate file type
-    const validTypes = ['image/png', 'image/jpeg', 'image/jpg', 'image/webp'];
-    if (!validTypes.includes(file.type)) {
-      setUploadError('Please upload a PNG, JPG, or WebP image');
-      return;
+  // Only FAL lets the user pick the image model, so everyone else gets the provider default's capabilities
+  const selectedModel = providerSettings.provider === 'fal' ? providerSettings.fluxModel : undefined;
+  const catalogModel = findModel(catalog, providerSettings.provider, selectedModel);
+  const parameterSupport = imageParameterSupportOf(catalogModel)
+    ?? getImageParameterSupport(providerSettings.provider, selectedModel);
+
+  // Inline --flags override the panel for this prompt; problems are shown as the user types
+  const parsedPrompt = parsePromptFlags(prompt);
+  const flagErrors = [...parsedPrompt.errors, ...checkPromptFlags(parsedPrompt, parameterSupport)];
+  if (prompt.trim() && !parsedPrompt.prompt) {
+    flagErrors.unshift("Describe what you want before adding --flags");
+  }
+  const canGenerate = !!parsedPrompt.prompt && flagErrors.length === 0;
+
+  // Load saved parameters after mount to avoid hydration issues
+  useEffect(() => {
+    const savedParameters = localStorage.getItem(PARAMETERS_STORAGE_KEY);
+    if (savedParameters) {
+      try {
+        setParameters(JSON.parse(savedParameters));
+      } catch {
+        localStorage.removeItem(PARAMETERS_STORAGE_KEY);
+      }
     }
+  }, []);
+
+  const handleParametersChange = (newParameters: ImageParameters) => {
+    setParameters(newParameters);
+    localStorage.setItem(PARAMETERS_STORAGE_KEY, JSON.stringify(newParameters));
+  };
+
+  // Keep our own copy of the provider so the parameters panel can follow it
+  const handleProviderChange = useCallback((settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    providerSettingsHandler?.(settings);
+  }, [providerSettingsHandler]);
+
+  // The first image added is edited; later ones default to style references
+  const addImages = (added: Array<Omit<PromptImage, "id" | "slot">>) => {
+    setImages(prev => {
+      const next = [...prev];
+      for (const image of added.slice(0, MAX_REFERENCE_IMAGES - prev.length)) {
+        next.push({
+          ...image,
+          id: `${Date.now()}-${next.length}`,
+          slot: next.some(entry => entry.slot === "edit") ? "style" : "edit"
+        });
+      }
+      return next;
+    });
+    setUploadError(images.length + added.length > MAX_REFERENCE_IMAGES
+      ? `You can add up to ${MAX_REFERENCE_IMAGES} images`
+      : null);
+  };
 
-    // Validate file size (5MB max)
-    const maxSize = 5 * 1024 * 1024;
-    if (file.size > maxSize) {
-      setUploadError('Image must be smaller than 5MB');
+  const addFiles = async (files: File[]) => {
+    // Validate file type and size (5MB max)
+    if (files.some(file => !INPUT_IMAGE_TYPES.includes(file.type))) {
+      setUploadError('Please upload PNG, JPG, or WebP images');
+      return;
+    }
+    if (files.some(file => file.size > MAX_IMAGE_SIZE)) {
+      setUploadError('Images must be smaller than 5MB');
       return;
     }
 
-    setUploadedImage(file);
-    setUploadError(null);
+    try {
+      addImages(await Promise.all(files.map(async (file) => ({
+        name: file.name,
+        size: file.size,
+        url: await readFileAsDataUrl(file)
+      }))));
+    } catch (error) {
+      console.error('Error reading image:', error);
+      setUploadError('Failed to read image');
+    }
+  };
 
-    // Generate preview
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      setImagePreview(reader.result as string);
-    };
-    reader.readAsDataURL(file);
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    if (files.length > 0) {
+      addFiles(files);
+    }
 
-    // Clear the file input
+    // Clear the file input so the same file can be picked again
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
   };
 
-  const handleRemoveImage = () => {
-    setUploadedImage(null);
-    setImagePreview(null);
-    setUploadError(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+  const handlePaste = (event: React.ClipboardEvent) => {
+    const files = Array.from(event.clipboardData.files).filter(file => file.type.startsWith('image/'));
+    if (files.length === 0) return;
+    event.preventDefault();
+    addFiles(files);
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDraggingOver(true);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDraggingOver(false);
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length > 0) {
+      addFiles(files);
     }
   };
 
-  const convertFileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const result = reader.result as string;
-        // Remove the data:image/...;base64, prefix to get just the base64 data
-        const base64 = result.split(',')[1];
-        resolve(base64);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
+  // Only one image can be edited, so giving another image that slot demotes the current one
+  const handleSlotChange = (id: string, slot: ImageSlot) => {
+    setImages(prev => prev.map(image => {
+      if (image.id === id) return { ...image, slot };
+      return slot === "edit" && image.slot === "edit" ? { ...image, slot: "style" } : image;
+    }));
+  };
+
+  const handleRemoveImage = (id: string) => {
+    setImages(prev => prev.filter(image => image.id !== id));
+    setUploadError(null);
   };
 
   const handleGenerate = async (type: "image" | "video") => {
-    if (!prompt.trim()) return;
+    if (!canGenerate) return;
     
     setIsGenerating(true);
     
     try {
-      let imageBytes: string | undefined;
-      if (uploadedImage) {
-        console.log('🔍 Processing uploaded image:', uploadedImage.name, uploadedImage.size);
-        imageBytes = await convertFileToBase64(uploadedImage);
-        console.log('✅ Image converted to base64, length:', imageBytes?.length);
-      } else {
-        console.log('ℹ️ No image uploaded, proceeding with text-only generation');
-      }
+      const editImage = images.find(image => image.slot === "edit");
+      // Normalized at send time so the size limit follows whichever provider is selected now
+      const maxSize = MAX_INPUT_IMAGE_SIZE[providerSettings.provider];
+      const inputImage = editImage ? await normalizeImage(editImage.url, maxSize) : undefined;
+      // Videos only take a first frame, so references are left out
+      const referenceImages = type === "image"
+        ? await Promise.all(images
+            .filter(image => image !== editImage)
+            .map(async (image) => ({ ...await normalizeImage(image.url, maxSize), role: image.slot as ReferenceRole })))
+        : [];
+      console.log('🔍 Processed input images:', {
+        mimeType: inputImage?.mimeType,
+        length: inputImage?.imageBytes.length,
+        referenceImages: referenceImages.length
+      });
 
       // Call the parent handler to add new generation
       if (onGenerate) {
-        console.log('📤 Calling onGenerate with:', { type, prompt: prompt.trim(), hasImageBytes: !!imageBytes });
-        onGenerate(type, prompt.trim(), imageBytes);
+        console.log('📤 Calling onGenerate with:', { type, prompt: parsedPrompt.prompt, hasImage: !!inputImage });
+        onGenerate(
+          type,
+          parsedPrompt.prompt,
+          inputImage,
+          type === "image"
+            ? applyImageParameterSupport({ ...parameters, ...parsedPrompt.parameters }, parameterSupport)
+            : undefined,
+          referenceImages
+        );
       }
       
-      // Clear the prompt and image
+      // Clear the prompt and images
       setPrompt("");
-      handleRemoveImage();
+      setImages([]);
+      setUploadError(null);
       
     } catch (error) {
       console.error('Error processing image:', error);
@@ -121,36 +267,57 @@ export function PromptBar({ onGenerate, providerSettingsHandler }: PromptBarProp
   };
 
   return (
-    <div className="w-full py-4">
+    <div
+      className={cn("w-full py-4", isDraggingOver && "bg-muted/50")}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDraggingOver(false)}
+      onDrop={handleDrop}
+    >
       <div className="container mx-auto px-4">
         <div className="flex flex-col gap-4">
-          {/* Image preview section */}
-          {imagePreview && (
-            <div className="flex items-center gap-3 p-3 bg-muted rounded-lg">
-              <div className="relative w-12 h-12 rounded-md overflow-hidden flex-shrink-0">
-                <Image
-                  src={imagePreview}
-                  alt="Upload preview"
-                  fill
-                  className="object-cover"
-                />
-              </div>
-              <div className="flex-1 min-w-0">
-                <p className="text-sm font-medium truncate">
-                  {uploadedImage?.name}
-                </p>
-                <p className="text-xs text-muted-foreground">
-                  {uploadedImage && `${(uploadedImage.size / 1024 / 1024).toFixed(1)}MB`}
-                </p>
-              </div>
-              <Button
-                size="sm"
-                variant="ghost"
-                onClick={handleRemoveImage}
-                className="flex-shrink-0"
-              >
-                <X className="w-4 h-4" />
-              </Button>
+          {/* Input images, each tagged with how it should be used */}
+          {images.length > 0 && (
+            <div className="flex flex-col gap-2">
+              {images.map((image) => (
+                <div key={image.id} className="flex items-center gap-3 p-3 bg-muted rounded-lg">
+                  <div className="relative w-12 h-12 rounded-md overflow-hidden flex-shrink-0">
+                    <Image
+                      src={image.url}
+                      alt={image.name}
+                      fill
+                      sizes="48px"
+                      className="object-cover"
+                    />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {image.name}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {image.size !== undefined ? `${(image.size / 1024 / 1024).toFixed(1)}MB` : 'From history'}
+                    </p>
+                  </div>
+                  <Select value={image.slot} onValueChange={(slot) => handleSlotChange(image.id, slot as ImageSlot)}>
+                    <SelectTrigger className="w-36 h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="edit">Edit this image</SelectItem>
+                      {Object.entries(REFERENCE_ROLES).map(([role, { label }]) => (
+                        <SelectItem key={role} value={role}>{label} reference</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleRemoveImage(image.id)}
+                    className="flex-shrink-0"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
             </div>
           )}
 
@@ -161,6 +328,15 @@ export function PromptBar({ onGenerate, providerSettingsHandler }: PromptBarProp
             </div>
           )}
 
+          {/* Inline flag validation */}
+          {flagErrors.length > 0 && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg space-y-1">
+              {flagErrors.map((error) => (
+                <p key={error} className="text-sm text-destructive">{error}</p>
+              ))}
+            </div>
+          )}
+
           {/* Main prompt input */}
           <div className="flex flex-col sm:flex-row gap-4 items-center">
             {/* OpenJourney Logo */}
@@ -177,11 +353,12 @@ export function PromptBar({ onGenerate, providerSettingsHandler }: PromptBarProp
             
             <div className="relative flex-1 w-full">
               <Input
-                placeholder="Describe what you want to create..."
+                placeholder="Describe what you want to create... (--ar 16:9 --seed 42 --no text --n 2)"
                 value={prompt}
                 onChange={(e) => setPrompt(e.target.value)}
                 onKeyDown={handleKeyDown}
-                className="pr-2 sm:pr-44 h-12 text-base bg-card border-input"
+                onPaste={handlePaste}
+                className={cn("pr-2 h-12 text-base bg-card border-input", canGenerateVideo ? "sm:pr-80" : "sm:pr-60")}
                 disabled={isGenerating}
               />
               <div className="absolute right-2 top-1/2 -translate-y-1/2 hidden sm:flex gap-1">
@@ -189,6 +366,7 @@ export function PromptBar({ onGenerate, providerSettingsHandler }: PromptBarProp
                   ref={fileInputRef}
                   type="file"
                   accept=".png,.jpg,.jpeg,.webp"
+                  multiple
                   onChange={handleFileUpload}
                   className="hidden"
                 />
@@ -196,34 +374,46 @@ export function PromptBar({ onGenerate, providerSettingsHandler }: PromptBarProp
                   size="sm"
                   variant="ghost"
                   onClick={() => fileInputRef.current?.click()}
-                  disabled={isGenerating}
+                  disabled={isGenerating || images.length >= MAX_REFERENCE_IMAGES}
                   className="h-8 px-2"
-                  title="Upload image"
+                  title="Upload images"
                 >
                   <UploadIcon className="w-4 h-4" />
                 </Button>
+                <HistoryImagePicker
+                  onPick={(image) => addImages([{ name: image.prompt, url: image.url }])}
+                  disabled={isGenerating || images.length >= MAX_REFERENCE_IMAGES}
+                  className="h-8 px-2"
+                />
                 <Button
                   size="sm"
                   variant="outline"
                   onClick={() => handleGenerate("image")}
-                  disabled={!prompt.trim() || isGenerating}
+                  disabled={!canGenerate || isGenerating}
                   className="h-8"
                 >
                   <ImageIcon className="w-4 h-4 mr-1" />
                   Image
                 </Button>
-{/* Video generation temporarily hidden
-                <Button
-                  size="sm"
-                  onClick={() => handleGenerate("video")}
-                  disabled={!prompt.trim() || isGenerating}
-                  className="h-8"
-                >
-                  <VideoIcon className="w-4 h-4 mr-1" />
-                  Video
-                </Button>
-                */}
-                <SettingsDropdown onProviderChange={providerSettingsHandler || undefined} />
+                {canGenerateVideo && (
+                  <Button
+                    size="sm"
+                    onClick={() => handleGenerate("video")}
+                    disabled={!canGenerate || isGenerating}
+                    className="h-8"
+                  >
+                    <VideoIcon className="w-4 h-4 mr-1" />
+                    Video
+                  </Button>
+                )}
+                <GenerationParametersDropdown
+                  parameters={parameters}
+                  support={parameterSupport}
+                  model={catalogModel}
+                  onChange={handleParametersChange}
+                  disabled={isGenerating}
+                />
+                <SettingsDropdown onProviderChange={handleProviderChange} />
               </div>
             </div>
           </div>
@@ -234,32 +424,44 @@ export function PromptBar({ onGenerate, providerSettingsHandler }: PromptBarProp
               size="sm"
               variant="ghost"
               onClick={() => fileInputRef.current?.click()}
-              disabled={isGenerating}
+              disabled={isGenerating || images.length >= MAX_REFERENCE_IMAGES}
               className="px-3 h-10"
-              title="Upload image"
+              title="Upload images"
             >
               <UploadIcon className="w-4 h-4" />
             </Button>
+            <HistoryImagePicker
+              onPick={(image) => addImages([{ name: image.prompt, url: image.url }])}
+              disabled={isGenerating || images.length >= MAX_REFERENCE_IMAGES}
+              className="px-3 h-10"
+            />
             <Button
               variant="outline"
               onClick={() => handleGenerate("image")}
-              disabled={!prompt.trim() || isGenerating}
+              disabled={!canGenerate || isGenerating}
               className="flex-1 h-10"
             >
               <ImageIcon className="w-4 h-4 mr-2" />
               Image
             </Button>
-{/* Video generation temporarily hidden
-            <Button
-              onClick={() => handleGenerate("video")}
-              disabled={!prompt.trim() || isGenerating}
-              className="flex-1 h-10"
-            >
-              <VideoIcon className="w-4 h-4 mr-2" />
-              Video
-            </Button>
-            */}
-            <SettingsDropdown onProviderChange={providerSettingsHandler || undefined} />
+            {canGenerateVideo && (
+              <Button
+                onClick={() => handleGenerate("video")}
+                disabled={!canGenerate || isGenerating}
+                className="flex-1 h-10"
+              >
+                <VideoIcon className="w-4 h-4 mr-2" />
+                Video
+              </Button>
+            )}
+            <GenerationParametersDropdown
+              parameters={parameters}
+              support={parameterSupport}
+              model={catalogModel}
+              onChange={handleParametersChange}
+              disabled={isGenerating}
+            />
+            <SettingsDropdown onProviderChange={handleProviderChange} />
           </div>
 
 
@@ -19,47 +19,156 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { SettingsIcon } from "lucide-react";
+import { KeyStatus } from "@/components/key-status";
+import {
+  checkKey,
+  clearApiKey,
+  clearKeyCheck,
+  fetchKeyVaultStatus,
+  loadKeyVaultStatus,
+  saveApiKey,
+  useKeyChecks,
+  type KeyVaultStatus,
+} from "@/lib/api-keys";
+import { saveFeatureOverride, useActions } from "@/lib/actions";
+import { FEATURE_LABELS, FEATURES, isFeatureEnabled } from "@/lib/features";
+import { findModel, fluxModelOptions, formatPrice, useModelCatalog } from "@/lib/model-catalog";
+import type { ProviderId } from "@/lib/providers/types";
 
 export interface ProviderSettings {
-  provider: 'google' | 'fal';
+  provider: ProviderId;
   fluxModel: string;
 }
 
+const PROVIDER_NAMES: Record<ProviderId, string> = {
+  google: 'Google AI',
+  fal: 'FAL.ai',
+  mock: 'Mock (offline)',
+};
+
 interface SettingsDropdownProps {
   onProviderChange?: (settings: ProviderSettings) => void;
 }
 
+interface VaultKeyFieldProps {
+  provider: ProviderId;
+  inputId: string;
+  placeholder: string;
+  // Last characters of the key stored for this browser, if there is one
+  hint?: string;
+  onChange: (message: string, stored: boolean) => void;
+}
+
+// Waits for typing to pause before asking the provider about a key
+const KEY_CHECK_DELAY_MS = 800;
+
+// With the server's key vault on, a key is sent once on Save and only its hint comes back
+function VaultKeyField({ provider, inputId, placeholder, hint, onChange }: VaultKeyFieldProps) {
+  const [value, setValue] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveApiKey(provider, value.trim(), true);
+      setValue("");
+      onChange(`${PROVIDER_NAMES[provider]} API key stored on the server`, true);
+    } catch (error) {
+      onChange(error instanceof Error ? error.message : "Could not store the API key", false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClear = async () => {
+    await clearApiKey(provider, true);
+    onChange(`${PROVIDER_NAMES[provider]} API key removed from the server`, false);
+  };
+
+  if (hint) {
+    return (
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          Stored on the server, ending in <span className="font-mono">{hint}</span>
+        </p>
+        <Button variant="ghost" size="sm" onClick={handleClear} className="text-xs h-7">
+          Clear
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        id={inputId}
+        type="password"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => e.key === "Enter" && value.trim() && handleSave()}
+        className="text-xs"
+      />
+      <Button size="sm" onClick={handleSave} disabled={!value.trim() || isSaving} className="text-xs h-9">
+        {isSaving ? "Saving..." : "Save"}
+      </Button>
+    </div>
+  );
+}
+
 export function SettingsDropdown({ onProviderChange }: SettingsDropdownProps = {}) {
   const [apiKey, setApiKey] = useState("");
   const [falApiKey, setFalApiKey] = useState("");
-  const [provider, setProvider] = useState<'google' | 'fal'>('google');
+  const [provider, setProvider] = useState<ProviderId>('google');
   const [fluxModel, setFluxModel] = useState('fal-ai/flux/dev');
   const [darkMode, setDarkMode] = useState(false);
   const [showApiKey, setShowApiKey] = useState(false);
   const [showFalApiKey, setShowFalApiKey] = useState(false);
   const [saveStatus, setSaveStatus] = useState<string | null>(null);
+  const [keyVault, setKeyVault] = useState<KeyVaultStatus>({ enabled: false, hints: {} });
+  const keyChecks = useKeyChecks();
+  const catalog = useModelCatalog();
+  const { flags, overrides } = useActions();
+  const selectedFluxModel = findModel(catalog, "fal", fluxModel);
 
   useEffect(() => {
-    // Function to load API keys from localStorage
+    // Function to load API keys from localStorage, and which ones the server's vault holds
     const loadApiKeys = () => {
       const savedApiKey = localStorage.getItem("gemini_api_key");
       const savedFalApiKey = localStorage.getItem("fal_api_key");
       setApiKey(savedApiKey || "");
       setFalApiKey(savedFalApiKey || "");
+      if (savedApiKey) checkKey("google", savedApiKey);
+      if (savedFalApiKey) checkKey("fal", savedFalApiKey);
+      loadKeyVaultStatus()
+        .then((status) => {
+          setKeyVault(status);
+          // Keys held in the vault are checked by reference, since the browser can't see them
+          for (const provider of Object.keys(status.hints) as ProviderId[]) {
+            checkKey(provider);
+          }
+        })
+        .catch((error) => {
+          console.error("Failed to load key vault status:", error);
+        });
     };
 
     // Load saved API keys from localStorage
     loadApiKeys();
 
     // Load saved provider and model preferences
-    const savedProvider = localStorage.getItem("openjourney-provider") as 'google' | 'fal';
-    const savedFluxModel = localStorage.getItem("openjourney-flux-model");
-    if (savedProvider) {
-      setProvider(savedProvider);
-    }
-    if (savedFluxModel) {
-      setFluxModel(savedFluxModel);
-    }
+    const loadProviderSettings = () => {
+      const savedProvider = localStorage.getItem("openjourney-provider") as ProviderId;
+      const savedFluxModel = localStorage.getItem("openjourney-flux-model");
+      if (savedProvider) {
+        setProvider(savedProvider);
+      }
+      if (savedFluxModel) {
+        setFluxModel(savedFluxModel);
+      }
+    };
+
+    loadProviderSettings();
 
     // Load saved dark mode preference
     const savedDarkMode = localStorage.getItem("openjourney-dark-mode");
@@ -73,10 +182,13 @@ export function SettingsDropdown({ onProviderChange }: SettingsDropdownProps = {
     };
 
     window.addEventListener('apiKeyUpdated', handleApiKeyUpdate);
+    // The setup wizard saves a default provider and model the same way this menu does
+    window.addEventListener('providerSettingsUpdated', loadProviderSettings);
 
-    // Cleanup event listener
+    // Cleanup event listeners
     return () => {
       window.removeEventListener('apiKeyUpdated', handleApiKeyUpdate);
+      window.removeEventListener('providerSettingsUpdated', loadProviderSettings);
     };
   }, []);
 
@@ -100,12 +212,11 @@ export function SettingsDropdown({ onProviderChange }: SettingsDropdownProps = {
     setApiKey(value);
     localStorage.setItem("gemini_api_key", value);
     
-    // Show save confirmation
+    // Saved either way, but only a key the provider accepts is reported as working
     if (value.trim()) {
-      setSaveStatus("Google Gemini API key saved successfully!");
-      setTimeout(() => setSaveStatus(null), 3000);
+      checkKey("google", value.trim(), KEY_CHECK_DELAY_MS);
     } else {
-      setSaveStatus(null);
+      clearKeyCheck("google");
     }
   };
 
@@ -113,26 +224,24 @@ export function SettingsDropdown({ onProviderChange }: SettingsDropdownProps = {
     setFalApiKey(value);
     localStorage.setItem("fal_api_key", value);
     
-    // Show save confirmation
     if (value.trim()) {
-      setSaveStatus("FAL.ai API key saved successfully!");
-      setTimeout(() => setSaveStatus(null), 3000);
+      checkKey("fal", value.trim(), KEY_CHECK_DELAY_MS);
     } else {
-      setSaveStatus(null);
+      clearKeyCheck("fal");
     }
   };
 
-  const handleProviderChange = (value: 'google' | 'fal') => {
+  const handleProviderChange = (value: ProviderId) => {
     setProvider(value);
     localStorage.setItem("openjourney-provider", value);
-    setSaveStatus(`Switched to ${value === 'google' ? 'Google AI' : 'FAL.ai'} provider`);
+    setSaveStatus(`Switched to ${PROVIDER_NAMES[value]} provider`);
     setTimeout(() => setSaveStatus(null), 2000);
   };
 
   const handleFluxModelChange = (value: string) => {
     setFluxModel(value);
     localStorage.setItem("openjourney-flux-model", value);
-    setSaveStatus(`FLUX model updated to ${value.split('/').pop()}`);
+    setSaveStatus(`FLUX model updated to ${findModel(catalog, "fal", value)?.label ?? value.split('/').pop()}`);
     setTimeout(() => setSaveStatus(null), 2000);
   };
 
@@ -150,6 +259,7 @@ export function SettingsDropdown({ onProviderChange }: SettingsDropdownProps = {
   const handleClearApiKey = () => {
     setApiKey("");
     localStorage.removeItem("gemini_api_key");
+    clearKeyCheck("google");
     setSaveStatus("Google Gemini API key cleared");
     setTimeout(() => setSaveStatus(null), 3000);
   };
@@ -157,10 +267,22 @@ export function SettingsDropdown({ onProviderChange }: SettingsDropdownProps = {
   const handleClearFalApiKey = () => {
     setFalApiKey("");
     localStorage.removeItem("fal_api_key");
+    clearKeyCheck("fal");
     setSaveStatus("FAL.ai API key cleared");
     setTimeout(() => setSaveStatus(null), 3000);
   };
 
+  const handleVaultKeyChange = (message: string, stored: boolean) => {
+    fetchKeyVaultStatus().then(setKeyVault).catch(() => {});
+    if (stored) {
+      checkKey(provider);
+    } else {
+      clearKeyCheck(provider);
+    }
+    setSaveStatus(message);
+    setTimeout(() => setSaveStatus(null), 3000);
+  };
+
   return (
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
@@ -182,6 +304,7 @@ export function SettingsDropdown({ onProviderChange }: SettingsDropdownProps = {
               <SelectContent>
                 <SelectItem value="google">Google AI (Gemini)</SelectItem>
                 <SelectItem value="fal">FAL.ai (FLUX)</SelectItem>
+                <SelectItem value="mock">Mock (offline, no key)</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -194,34 +317,45 @@ export function SettingsDropdown({ onProviderChange }: SettingsDropdownProps = {
               <Label htmlFor="api-key" className="text-sm font-medium">
                 Google Gemini API Key
               </Label>
-              <div className="space-y-2">
-                <Input
-                  id="api-key"
-                  type={showApiKey ? "text" : "password"}
+              {keyVault.enabled ? (
+                <VaultKeyField
+                  provider="google"
+                  inputId="api-key"
                   placeholder="Enter your Google Gemini API key..."
-                  value={apiKey}
-                  onChange={(e) => handleApiKeyChange(e.target.value)}
-                  className="text-xs"
+                  hint={keyVault.hints.google}
+                  onChange={handleVaultKeyChange}
                 />
-                <div className="flex justify-between">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => setShowApiKey(!showApiKey)}
-                    className="text-xs h-7"
-                  >
-                    {showApiKey ? "Hide" : "Show"}
-                  </Button>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={handleClearApiKey}
-                    className="text-xs h-7"
-                  >
-                    Clear
-                  </Button>
+              ) : (
+                <div className="space-y-2">
+                  <Input
+                    id="api-key"
+                    type={showApiKey ? "text" : "password"}
+                    placeholder="Enter your Google Gemini API key..."
+                    value={apiKey}
+                    onChange={(e) => handleApiKeyChange(e.target.value)}
+                    className="text-xs"
+                  />
+                  <div className="flex justify-between">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setShowApiKey(!showApiKey)}
+                      className="text-xs h-7"
+                    >
+                      {showApiKey ? "Hide" : "Show"}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleClearApiKey}
+                      className="text-xs h-7"
+                    >
+                      Clear
+                    </Button>
+                  </div>
                 </div>
-              </div>
+              )}
+              <KeyStatus check={keyChecks.google} />
               <p className="text-xs text-muted-foreground">
                 Get your Google Gemini API key from{" "}
                 <a
@@ -243,34 +377,45 @@ export function SettingsDropdown({ onProviderChange }: SettingsDropdownProps = {
                 <Label htmlFor="fal-api-key" className="text-sm font-medium">
                   FAL.ai API Key
                 </Label>
-                <div className="space-y-2">
-                  <Input
-                    id="fal-api-key"
-                    type={showFalApiKey ? "text" : "password"}
+                {keyVault.enabled ? (
+                  <VaultKeyField
+                    provider="fal"
+                    inputId="fal-api-key"
                     placeholder="Enter your FAL.ai API key..."
-                    value={falApiKey}
-                    onChange={(e) => handleFalApiKeyChange(e.target.value)}
-                    className="text-xs"
+                    hint={keyVault.hints.fal}
+                    onChange={handleVaultKeyChange}
                   />
-                  <div className="flex justify-between">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => setShowFalApiKey(!showFalApiKey)}
-                      className="text-xs h-7"
-                    >
-                      {showFalApiKey ? "Hide" : "Show"}
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={handleClearFalApiKey}
-                      className="text-xs h-7"
-                    >
-                      Clear
-                    </Button>
+                ) : (
+                  <div className="space-y-2">
+                    <Input
+                      id="fal-api-key"
+                      type={showFalApiKey ? "text" : "password"}
+                      placeholder="Enter your FAL.ai API key..."
+                      value={falApiKey}
+                      onChange={(e) => handleFalApiKeyChange(e.target.value)}
+                      className="text-xs"
+                    />
+                    <div className="flex justify-between">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setShowFalApiKey(!showFalApiKey)}
+                        className="text-xs h-7"
+                      >
+                        {showFalApiKey ? "Hide" : "Show"}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleClearFalApiKey}
+                        className="text-xs h-7"
+                      >
+                        Clear
+                      </Button>
+                    </div>
                   </div>
-                </div>
+                )}
+                <KeyStatus check={keyChecks.fal} />
                 <p className="text-xs text-muted-foreground">
                   Get your FAL.ai API key from{" "}
                   <a
@@ -293,19 +438,30 @@ export function SettingsDropdown({ onProviderChange }: SettingsDropdownProps = {
                     <SelectValue placeholder="Select FLUX model" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="fal-ai/flux/schnell">FLUX Schnell (Fastest)</SelectItem>
-                    <SelectItem value="fal-ai/flux/dev">FLUX Dev (Balanced)</SelectItem>
-                    <SelectItem value="fal-ai/flux-pro">FLUX Pro (Highest Quality)</SelectItem>
-                    <SelectItem value="fal-ai/flux-pro/kontext">FLUX Kontext (Image-to-Image)</SelectItem>
+                    {fluxModelOptions(catalog).map(({ id, label }) => (
+                      <SelectItem key={id} value={id}>{label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
-                <p className="text-xs text-muted-foreground">
-                  Choose the FLUX model based on your needs: Schnell for speed, Pro for quality, Kontext for image editing
-                </p>
+                {selectedFluxModel && (
+                  <p className="text-xs text-muted-foreground">
+                    {[selectedFluxModel.description, selectedFluxModel.price && formatPrice(selectedFluxModel.price)]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                )}
               </div>
             </>
           )}
 
+          {/* Mock provider needs no configuration */}
+          {provider === 'mock' && (
+            <p className="text-xs text-muted-foreground">
+              Generates deterministic placeholder images and clips from your prompt without calling any API.
+              Useful for local development and demos without a key.
+            </p>
+          )}
+
           {saveStatus && (
             <div className="p-2 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-md">
               <p className="text-xs text-green-600 dark:text-green-400">
@@ -316,6 +472,25 @@ export function SettingsDropdown({ onProviderChange }: SettingsDropdownProps = {
 
           <DropdownMenuSeparator />
 
+          {/* Features this server leaves up to each user */}
+          {FEATURES.some((feature) => flags[feature] !== "disabled") && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Actions</Label>
+              {FEATURES.filter((feature) => flags[feature] !== "disabled").map((feature) => (
+                <div key={feature} className="flex items-center justify-between">
+                  <Label htmlFor={`feature-${feature}`} className="text-xs font-normal">
+                    {FEATURE_LABELS[feature]}
+                  </Label>
+                  <Switch
+                    id={`feature-${feature}`}
+                    checked={isFeatureEnabled(flags, overrides, feature)}
+                    onCheckedChange={(checked) => saveFeatureOverride(feature, checked)}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Dark Mode Section */}
           <div className="flex items-center justify-between py-2">
             <Label htmlFor="dark-mode" className="text-sm font-medium">
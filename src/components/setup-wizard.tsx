@@ -0,0 +1,321 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CheckCircle2Icon, ExternalLinkIcon, KeyIcon } from "lucide-react";
+import { KeyStatus } from "@/components/key-status";
+import { checkApiKey, clearApiKey, fetchKeyVaultStatus, saveApiKey, type KeyCheck, type KeyVaultStatus } from "@/lib/api-keys";
+import { findModel, fluxModelOptions, formatPrice, useModelCatalog } from "@/lib/model-catalog";
+import type { ProviderId } from "@/lib/providers/types";
+
+const SETUP_COMPLETE_KEY = "openjourney-setup-complete";
+
+interface ProviderOption {
+  id: ProviderId;
+  name: string;
+  description: string;
+  // Where to get a key; providers without one skip straight to choosing a model
+  key?: { url: string; site: string; placeholder: string };
+}
+
+const PROVIDER_OPTIONS: ProviderOption[] = [
+  {
+    id: "google",
+    name: "Google AI (Gemini)",
+    description: "Gemini image generation and editing, plus Veo video. Has a free tier.",
+    key: { url: "https://aistudio.google.com/app/apikey", site: "Google AI Studio", placeholder: "AIza..." },
+  },
+  {
+    id: "fal",
+    name: "FAL.ai (FLUX)",
+    description: "FLUX image models, billed per image.",
+    key: { url: "https://fal.ai/dashboard/keys", site: "the FAL.ai dashboard", placeholder: "Enter your FAL.ai API key..." },
+  },
+  {
+    id: "mock",
+    name: "Mock (offline)",
+    description: "Placeholder images and clips made from your prompt. No key or network needed.",
+  },
+];
+
+type Step = "provider" | "key" | "model";
+
+const STEP_NUMBERS: Record<Step, number> = { provider: 1, key: 2, model: 3 };
+
+// Browsers configured before the wizard existed count as set up
+export function needsFirstRunSetup() {
+  return !localStorage.getItem(SETUP_COMPLETE_KEY)
+    && !localStorage.getItem("openjourney-provider")
+    && !localStorage.getItem("gemini_api_key")
+    && !localStorage.getItem("fal_api_key");
+}
+
+interface SetupWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The provider whose key was missing or rejected, when a failed generation opened the wizard
+  failedProvider?: ProviderId;
+}
+
+export function SetupWizard({ open, onOpenChange, failedProvider }: SetupWizardProps) {
+  const [step, setStep] = useState<Step>("provider");
+  const [provider, setProvider] = useState<ProviderId>("google");
+  const [apiKey, setApiKey] = useState("");
+  const [keyCheck, setKeyCheck] = useState<KeyCheck>();
+  // Set when the server can already use a key for this provider: one in the vault, or its own
+  const [existingKeyModels, setExistingKeyModels] = useState<string[] | null>(null);
+  const [keyVault, setKeyVault] = useState<KeyVaultStatus>({ enabled: false, hints: {} });
+  const [models, setModels] = useState<string[]>([]);
+  const [fluxModel, setFluxModel] = useState("fal-ai/flux/dev");
+  const catalog = useModelCatalog();
+
+  const option = PROVIDER_OPTIONS.find(({ id }) => id === provider) ?? PROVIDER_OPTIONS[0];
+
+  // Every opening starts over; an auth failure goes straight to that provider's key
+  useEffect(() => {
+    if (!open) return;
+    setProvider(failedProvider ?? ((localStorage.getItem("openjourney-provider") as ProviderId) || "google"));
+    setStep(failedProvider ? "key" : "provider");
+    setFluxModel(localStorage.getItem("openjourney-flux-model") || "fal-ai/flux/dev");
+    fetchKeyVaultStatus()
+      .then(setKeyVault)
+      .catch(() => setKeyVault({ enabled: false, hints: {} }));
+  }, [open, failedProvider]);
+
+  // Asking without a key checks the one the server would fall back to
+  useEffect(() => {
+    if (!open || step !== "key") return;
+    let cancelled = false;
+    setApiKey("");
+    setKeyCheck(undefined);
+    setExistingKeyModels(null);
+    checkApiKey(provider).then((check) => {
+      if (!cancelled && check.status === "verified") {
+        setExistingKeyModels(check.models);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, step, provider]);
+
+  const close = () => {
+    // Dismissing counts too: a later auth failure reopens the wizard where it's needed
+    localStorage.setItem(SETUP_COMPLETE_KEY, "true");
+    onOpenChange(false);
+  };
+
+  const continueWithModels = (availableModels: string[]) => {
+    setModels(availableModels);
+    setStep("model");
+  };
+
+  const saveKey = async (key: string, check: KeyCheck) => {
+    try {
+      await saveApiKey(provider, key, keyVault.enabled);
+      window.dispatchEvent(new CustomEvent('apiKeyUpdated'));
+      continueWithModels(check.status === "verified" ? check.models : []);
+    } catch (error) {
+      setKeyCheck({
+        status: "unverified",
+        message: error instanceof Error ? error.message : "Could not save the key",
+      });
+    }
+  };
+
+  // A key saved in the browser is sent ahead of the vault's or the server's, so drop it. The vault's
+  // own reference only goes when it's stale; a readable vault key is the one that just verified.
+  const continueWithExistingKey = async (availableModels: string[]) => {
+    try {
+      await clearApiKey(provider, keyVault.enabled && !keyVault.hints[provider]);
+    } catch (error) {
+      console.error("Failed to clear the previous key:", error);
+    }
+    window.dispatchEvent(new CustomEvent('apiKeyUpdated'));
+    continueWithModels(availableModels);
+  };
+
+  const handleVerify = async () => {
+    const key = apiKey.trim();
+    if (!key) return;
+    setKeyCheck({ status: "checking" });
+    const check = await checkApiKey(provider, key);
+    setKeyCheck(check);
+    if (check.status === "verified") {
+      await saveKey(key, check);
+    }
+  };
+
+  const handleFinish = () => {
+    localStorage.setItem("openjourney-provider", provider);
+    if (provider === "fal") {
+      localStorage.setItem("openjourney-flux-model", fluxModel);
+    }
+    window.dispatchEvent(new CustomEvent('providerSettingsUpdated'));
+    close();
+  };
+
+  // Unverified setups (the provider couldn't be reached) still get the full list
+  const fluxOptions = fluxModelOptions(catalog).filter(({ id }) => !models.length || models.includes(id));
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => next ? onOpenChange(true) : close()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader className="text-center">
+          <DialogTitle className="flex items-center justify-center gap-2 text-xl">
+            <KeyIcon className="w-5 h-5" />
+            {failedProvider && step === "key" ? `${option.name} needs a key` : "Set up Openjourney"}
+          </DialogTitle>
+          <DialogDescription className="text-center">
+            Step {STEP_NUMBERS[step]} of 3:{" "}
+            {step === "provider" && "choose where images are generated"}
+            {step === "key" && `add your ${option.name} API key`}
+            {step === "model" && "pick a default model"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "provider" && (
+          <div className="space-y-3 pt-2">
+            {PROVIDER_OPTIONS.map(({ id, name, description }) => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => setProvider(id)}
+                className={`w-full text-left rounded-md border p-3 transition-colors ${
+                  provider === id ? "border-primary bg-primary/5" : "border-border hover:bg-muted/50"
+                }`}
+              >
+                <p className="text-sm font-medium">{name}</p>
+                <p className="text-xs text-muted-foreground">{description}</p>
+              </button>
+            ))}
+            <Button className="w-full" onClick={() => option.key ? setStep("key") : continueWithModels([])}>
+              Continue
+            </Button>
+          </div>
+        )}
+
+        {step === "key" && option.key && (
+          <div className="space-y-4 pt-2">
+            {failedProvider && (
+              <p className="text-sm text-muted-foreground text-center">
+                The last generation failed because the {option.name} key was missing or rejected.
+              </p>
+            )}
+
+            {existingKeyModels && (
+              <div className="flex items-start gap-2 rounded-md border p-3">
+                <CheckCircle2Icon className="w-4 h-4 text-green-600 dark:text-green-400 mt-0.5 flex-shrink-0" />
+                <div className="space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    A working {option.name} key is already set up. Continue with it, or enter a different one below.
+                  </p>
+                  <Button size="sm" variant="outline" onClick={() => continueWithExistingKey(existingKeyModels)}>
+                    Use the existing key
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => window.open(option.key?.url, '_blank')}
+            >
+              <ExternalLinkIcon className="w-4 h-4 mr-2" />
+              Get a key from {option.key.site}
+            </Button>
+
+            <div className="space-y-2">
+              <Label htmlFor="setup-api-key">{option.name} API key</Label>
+              <Input
+                id="setup-api-key"
+                type="password"
+                placeholder={option.key.placeholder}
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleVerify()}
+                className="font-mono text-sm"
+              />
+              <KeyStatus check={keyCheck} />
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="ghost" onClick={() => setStep("provider")}>
+                Back
+              </Button>
+              {keyCheck?.status === "unverified" ? (
+                <Button className="flex-1" onClick={() => saveKey(apiKey.trim(), keyCheck)} disabled={!apiKey.trim()}>
+                  Save without verifying
+                </Button>
+              ) : (
+                <Button
+                  className="flex-1"
+                  onClick={handleVerify}
+                  disabled={!apiKey.trim() || keyCheck?.status === "checking"}
+                >
+                  {keyCheck?.status === "checking" ? "Verifying..." : "Verify and save"}
+                </Button>
+              )}
+            </div>
+
+            <p className="text-xs text-muted-foreground text-center">
+              {keyVault.enabled
+                ? "Your key is encrypted and stored on this server. Your browser only keeps a reference to it."
+                : "Your key is stored in your browser and sent to this app's server with each generation, which passes it on to the provider."}
+            </p>
+          </div>
+        )}
+
+        {step === "model" && (
+          <div className="space-y-4 pt-2">
+            {provider === "fal" ? (
+              <div className="space-y-2">
+                <Label>Default FLUX model</Label>
+                <Select value={fluxModel} onValueChange={setFluxModel}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select FLUX model" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fluxOptions.map(({ id, label, price }) => (
+                      <SelectItem key={id} value={id}>
+                        {label}{price && ` · ${formatPrice(price)}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  You can change this any time in the settings menu.
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center">
+                {option.name} picks the model for each kind of generation, so there&apos;s nothing to choose here.
+                {models.length > 0 && ` Your key can use ${models.map((id) => findModel(catalog, provider, id)?.label ?? id).join(", ")}.`}
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              <Button variant="ghost" onClick={() => setStep(option.key ? "key" : "provider")}>
+                Back
+              </Button>
+              <Button className="flex-1" onClick={handleFinish}>
+                Start generating
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
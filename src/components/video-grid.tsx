@@ -9,6 +9,7 @@ import { DownloadIcon, ExpandIcon, ClockIcon } from "lucide-react";
 import { motion } from "framer-motion";
 import { LightboxModal } from "@/components/lightbox-modal";
 import Image from "next/image";
+import { downloadFile } from "@/lib/download";
 
 interface VideoGeneration {
   id: string;
@@ -45,13 +46,7 @@ export function VideoGrid({ generation, onViewFullscreen }: VideoGridProps) {
 
   const handleDownload = async (videoUrl: string, index: number) => {
     try {
-      const a = document.createElement('a');
-      a.href = videoUrl;
-      a.download = `generated-video-${index + 1}.mp4`;
-      a.target = '_blank';
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
+      await downloadFile(videoUrl, `generated-video-${index + 1}`);
     } catch (error) {
       console.error('Download failed:', error);
     }
@@ -135,7 +130,8 @@ export function VideoGrid({ generation, onViewFullscreen }: VideoGridProps) {
                       muted
                       loop
                     >
-                      <source src={videoUrl} type="video/mp4" />
+                      {/* No type hint: Veo returns MP4 while the mock provider returns WebM */}
+                      <source src={videoUrl} />
                       Your browser does not support the video tag.
                     </video>
                     
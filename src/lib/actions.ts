@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useState } from "react";
+import { featureFlagsResponseSchema, readApiResponse } from "@/lib/api-contracts";
+import {
+  DEFAULT_FEATURE_FLAGS,
+  isFeatureEnabled,
+  type Feature,
+  type FeatureFlags,
+  type FeatureOverrides,
+} from "@/lib/features";
+import { providerSupports, useModelCatalog, type ModelCapability } from "@/lib/model-catalog";
+import type { ProviderId } from "@/lib/providers/types";
+
+// Whether an action is offered combines three things: the deployment's flag, this
+// user's override of it, and whether the provider it would run on has a model for it.
+
+const OVERRIDES_STORAGE_KEY = "openjourney-feature-overrides";
+
+const ACTION_CAPABILITIES: Record<Feature, ModelCapability> = {
+  video: "textToVideo",
+  animate: "imageToVideo",
+  improve: "imageToImage",
+  upscale: "upscale",
+};
+
+let flagsRequest: Promise<FeatureFlags> | null = null;
+
+export function fetchFeatureFlags(): Promise<FeatureFlags> {
+  flagsRequest ??= fetch("/api/features", { cache: "no-store" })
+    .then((response) => readApiResponse(response, featureFlagsResponseSchema))
+    .then(({ features }) => features)
+    .catch((error) => {
+      flagsRequest = null;
+      throw error;
+    });
+  return flagsRequest;
+}
+
+export function loadFeatureOverrides(): FeatureOverrides {
+  try {
+    return JSON.parse(localStorage.getItem(OVERRIDES_STORAGE_KEY) || "{}");
+  } catch {
+    localStorage.removeItem(OVERRIDES_STORAGE_KEY);
+    return {};
+  }
+}
+
+export function saveFeatureOverride(feature: Feature, enabled: boolean) {
+  localStorage.setItem(OVERRIDES_STORAGE_KEY, JSON.stringify({ ...loadFeatureOverrides(), [feature]: enabled }));
+  window.dispatchEvent(new CustomEvent('featureOverridesUpdated'));
+}
+
+// Until the server answers, the built-in defaults apply
+export function useActions() {
+  const catalog = useModelCatalog();
+  const [flags, setFlags] = useState<FeatureFlags>(DEFAULT_FEATURE_FLAGS);
+  const [overrides, setOverrides] = useState<FeatureOverrides>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchFeatureFlags()
+      .then((features) => {
+        if (!cancelled) setFlags(features);
+      })
+      .catch((error) => {
+        console.error("Failed to load feature flags:", error);
+      });
+
+    // Several components use this hook, and a change in the settings menu applies to all of them
+    const loadOverrides = () => setOverrides(loadFeatureOverrides());
+    loadOverrides();
+    window.addEventListener('featureOverridesUpdated', loadOverrides);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('featureOverridesUpdated', loadOverrides);
+    };
+  }, []);
+
+  // `provider` is the one the action would run on, which isn't always the selected one
+  const isAvailable = useCallback((action: Feature, provider: ProviderId) =>
+    isFeatureEnabled(flags, overrides, action) && providerSupports(catalog, provider, ACTION_CAPABILITIES[action]),
+  [catalog, flags, overrides]);
+
+  return { flags, overrides, isAvailable };
+}
@@ -0,0 +1,373 @@
+import {
+  ASPECT_RATIOS,
+  INPUT_IMAGE_TYPES,
+  MAX_SEED,
+  UPSCALE_FACTORS,
+} from "@/lib/providers/capabilities";
+import { FEATURE_STATES } from "@/lib/features";
+import { MAX_REFERENCE_IMAGES, REFERENCE_ROLES } from "@/lib/providers/references";
+import type { ErrorCode, GenerationMode, ModelPrice, ProviderId, ReferenceRole } from "@/lib/providers/types";
+import { VARIATION_STRENGTHS } from "@/lib/providers/variations";
+import {
+  array,
+  boolean,
+  number,
+  object,
+  oneOf,
+  optional,
+  parse,
+  SchemaError,
+  string,
+  type FieldError,
+  type Infer,
+  type Schema,
+} from "@/lib/schema";
+
+// Request and response contracts for every /api route. Routes read their bodies
+// through these schemas; the client types what it sends and checks what it gets
+// back with the same definitions.
+
+export const MAX_PROMPT_LENGTH = 4000;
+// Base64 of a ~15MB image, well above anything the prompt bar sends after normalizing
+const MAX_IMAGE_BYTES_LENGTH = 20 * 1024 * 1024;
+
+const PROVIDER_IDS = ["google", "fal", "mock"] as const satisfies readonly ProviderId[];
+const REQUEST_MODES = [
+  "text-to-image",
+  "image-to-image",
+  "text-to-video",
+  "image-to-video",
+] as const satisfies readonly GenerationMode[];
+const RESULT_MODES = [...REQUEST_MODES, "inpaint"] as const satisfies readonly GenerationMode[];
+const JOB_STATUSES = ["running", "succeeded", "failed"] as const;
+const PRICE_UNITS = ["image", "megapixel", "second"] as const satisfies readonly ModelPrice["per"][];
+const ERROR_CODES = [
+  "auth_missing",
+  "auth_invalid",
+  "quota_exceeded",
+  "rate_limited",
+  "feature_disabled",
+  "safety_blocked",
+  "timeout",
+  "provider_unavailable",
+  "invalid_input",
+  "internal",
+] as const satisfies readonly ErrorCode[];
+
+const prompt = string({ minLength: 1, maxLength: MAX_PROMPT_LENGTH });
+const imageBytes = string({ minLength: 1, maxLength: MAX_IMAGE_BYTES_LENGTH, pattern: /^[A-Za-z0-9+/]+={0,2}$/ });
+const imageMimeType = oneOf(INPUT_IMAGE_TYPES);
+const provider = oneOf(PROVIDER_IDS);
+// Whether the provider knows the model is checked once the provider is resolved
+const model = string({ minLength: 1, maxLength: 200, pattern: /^[\w.\-/]+$/ });
+const apiKey = string({ maxLength: 500 });
+// Lets the server recognise a resent request; see runOnce in idempotency.ts
+const requestId = string({ minLength: 1, maxLength: 100, pattern: /^[\w-]+$/ });
+// Points at a key stored with POST /api/credentials, instead of sending the key itself
+const credentialId = string({ minLength: 1, maxLength: 100, pattern: /^[\w-]+$/ });
+
+const referenceImage = object({
+  imageBytes,
+  mimeType: imageMimeType,
+  role: oneOf(Object.keys(REFERENCE_ROLES) as ReferenceRole[]),
+});
+
+// Model-specific limits are checked by checkImageParameters once the model is known
+const imageParameters = {
+  numImages: optional(number({ integer: true, min: 1, max: 4 })),
+  guidanceScale: optional(number({ min: 0, max: 50 })),
+  aspectRatio: optional(oneOf(ASPECT_RATIOS)),
+  seed: optional(number({ integer: true, min: 0, max: MAX_SEED })),
+  negativePrompt: optional(string({ maxLength: MAX_PROMPT_LENGTH })),
+};
+
+// POST /api/generate and /api/generate/stream
+export const generateRequestSchema = object({
+  provider: optional(provider),
+  model: optional(model),
+  mode: optional(oneOf(REQUEST_MODES)),
+  prompt,
+  imageBytes: optional(imageBytes),
+  imageMimeType: optional(imageMimeType),
+  referenceImages: optional(array(referenceImage, { maxLength: MAX_REFERENCE_IMAGES })),
+  variation: optional(oneOf(VARIATION_STRENGTHS)),
+  apiKey: optional(apiKey),
+  credentialId: optional(credentialId),
+  requestId: optional(requestId),
+  ...imageParameters,
+});
+export type GenerateRequest = Infer<typeof generateRequestSchema>;
+
+// POST /api/generate-images (Google only, kept for older clients)
+export const generateImagesRequestSchema = object({
+  prompt,
+  imageBytes: optional(imageBytes),
+  imageMimeType: optional(imageMimeType),
+  referenceImages: optional(array(referenceImage, { maxLength: MAX_REFERENCE_IMAGES })),
+  apiKey: optional(apiKey),
+  credentialId: optional(credentialId),
+});
+
+// POST /api/generate-images/fal
+export const falGenerateImagesRequestSchema = object({
+  prompt,
+  model: optional(model),
+  imageBytes: optional(imageBytes),
+  imageMimeType: optional(imageMimeType),
+  apiKey: optional(apiKey),
+  credentialId: optional(credentialId),
+  numImages: imageParameters.numImages,
+  guidanceScale: imageParameters.guidanceScale,
+  aspectRatio: imageParameters.aspectRatio,
+});
+
+// POST /api/generate-videos
+export const generateVideosRequestSchema = object({
+  prompt,
+  apiKey: optional(apiKey),
+  credentialId: optional(credentialId),
+});
+
+// POST /api/image-to-video
+export const imageToVideoRequestSchema = object({
+  prompt,
+  imageBytes,
+  imageMimeType: optional(imageMimeType),
+  apiKey: optional(apiKey),
+  credentialId: optional(credentialId),
+});
+
+// POST /api/improve-image
+export const improveImageRequestSchema = object({
+  originalPrompt: prompt,
+  improvementPrompt: prompt,
+  imageBytes,
+  imageMimeType: optional(imageMimeType),
+  maskBytes: optional(imageBytes),
+  provider: optional(provider),
+  model: optional(model),
+  apiKey: optional(apiKey),
+  credentialId: optional(credentialId),
+  requestId: optional(requestId),
+});
+export type ImproveImageRequest = Infer<typeof improveImageRequestSchema>;
+
+// POST /api/upscale-image
+export const upscaleImageRequestSchema = object({
+  imageBytes,
+  imageMimeType: optional(imageMimeType),
+  factor: optional(oneOf(UPSCALE_FACTORS)),
+  provider: optional(provider),
+  model: optional(model),
+  apiKey: optional(apiKey),
+  credentialId: optional(credentialId),
+  requestId: optional(requestId),
+});
+export type UpscaleImageRequest = Infer<typeof upscaleImageRequestSchema>;
+
+const storedImage = object({ id: string(), url: string() });
+
+const failedImageSlot = object({
+  index: number({ integer: true, min: 0 }),
+  code: oneOf(ERROR_CODES),
+  message: string(),
+  finishReason: optional(string()),
+  safetyRatings: optional(array(object({
+    category: string(),
+    probability: string(),
+    blocked: optional(boolean()),
+  }))),
+  text: optional(string()),
+});
+
+export const generateImagesResponseSchema = object({
+  images: array(storedImage),
+  prompt: string(),
+  provider,
+  model: string(),
+  seed: optional(number()),
+  failedSlots: optional(array(failedImageSlot)),
+  retries: optional(number({ integer: true, min: 0 })),
+});
+
+// Video modes of /api/generate answer 202 with a job to poll
+export const videoJobResponseSchema = object({
+  jobId: string(),
+  status: oneOf(JOB_STATUSES),
+  prompt: string(),
+  provider,
+  model: string(),
+});
+
+export const improveImageResponseSchema = object({
+  images: array(storedImage),
+  originalPrompt: string(),
+  improvementPrompt: string(),
+  enhancedPrompt: string(),
+  mode: oneOf(RESULT_MODES),
+  provider,
+  model: string(),
+  failedSlots: optional(array(failedImageSlot)),
+  retries: optional(number({ integer: true, min: 0 })),
+});
+
+export const upscaleImageResponseSchema = object({
+  images: array(storedImage),
+  factor: oneOf(UPSCALE_FACTORS),
+  width: optional(number()),
+  height: optional(number()),
+  provider,
+  model: string(),
+});
+
+// GET /api/jobs/:id
+export const jobResponseSchema = object({
+  job: object({
+    id: string(),
+    status: oneOf(JOB_STATUSES),
+    provider,
+    model: string(),
+    mode: oneOf(RESULT_MODES),
+    prompt: string(),
+    createdAt: number(),
+    updatedAt: number(),
+    videos: optional(array(object({ id: string(), url: string(), uri: string() }))),
+    error: optional(string()),
+    errorCode: optional(oneOf(ERROR_CODES)),
+  }),
+});
+
+// POST /api/credentials
+export const storeCredentialRequestSchema = object({
+  provider,
+  apiKey: string({ minLength: 1, maxLength: 500 }),
+});
+
+export const storeCredentialResponseSchema = object({
+  credential: object({ id: string(), provider, hint: string(), createdAt: number() }),
+});
+
+// GET /api/credentials lists the keys this browser's cookie points at, without their ids
+export const credentialsResponseSchema = object({
+  enabled: boolean(),
+  credentials: array(object({ provider, hint: string(), createdAt: number() })),
+});
+
+// POST /api/providers/:id/verify checks the sent key, or the stored or server one without it
+export const verifyKeyRequestSchema = object({
+  apiKey: optional(apiKey),
+  credentialId: optional(credentialId),
+});
+
+export const verifyKeyResponseSchema = object({
+  provider,
+  models: array(string()),
+});
+
+// GET /api/models describes every model of every provider
+export const modelCatalogResponseSchema = object({
+  models: array(object({
+    id: string(),
+    provider,
+    label: string(),
+    description: optional(string()),
+    capabilities: object({
+      textToImage: boolean(),
+      imageToImage: boolean(),
+      maskEdit: boolean(),
+      textToVideo: boolean(),
+      imageToVideo: boolean(),
+      upscale: boolean(),
+    }),
+    // Modes the provider uses this model for when a request names none
+    defaultModes: array(oneOf(RESULT_MODES)),
+    // Only set on models that generate images; mirrors ImageParameterSupport
+    imageParameters: optional(object({
+      maxImages: number({ integer: true, min: 1 }),
+      aspectRatios: array(string()),
+      seed: boolean(),
+      guidanceScale: optional(object({ min: number(), max: number(), default: number() })),
+      negativePrompt: boolean(),
+    })),
+    price: optional(object({ usd: number({ min: 0 }), per: oneOf(PRICE_UNITS) })),
+  })),
+});
+export type CatalogModel = Infer<typeof modelCatalogResponseSchema>["models"][number];
+
+// GET /api/features: this deployment's state for each optional action
+export const featureFlagsResponseSchema = object({
+  features: object({
+    video: oneOf(FEATURE_STATES),
+    animate: oneOf(FEATURE_STATES),
+    improve: oneOf(FEATURE_STATES),
+    upscale: oneOf(FEATURE_STATES),
+  }),
+});
+
+// `image` events of /api/generate/stream; its `done` event carries generateImagesResponseSchema
+export const streamImageEventSchema = object({
+  index: number({ integer: true, min: 0 }),
+  image: storedImage,
+});
+
+// Every route answers failures with this shape
+export interface ApiErrorBody {
+  success: false;
+  error: string;
+  code: ErrorCode;
+  details: string;
+  fieldErrors?: FieldError[];
+  // Set when waiting will help, e.g. after hitting a rate limit; mirrored in the Retry-After header
+  retryAfterMs?: number;
+}
+
+// A failure reported by an API route, carrying the route's error code
+export class ApiRequestError extends Error {
+  code: ErrorCode;
+  retryAfterMs?: number;
+
+  constructor(message: string, code: ErrorCode, retryAfterMs?: number) {
+    super(message);
+    this.name = "ApiRequestError";
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Errors thrown before or after the request (bad responses, failed downloads) count as internal
+export function errorCodeOf(error: unknown): ErrorCode {
+  return error instanceof ApiRequestError ? error.code : "internal";
+}
+
+export function isAuthError(code: ErrorCode) {
+  return code === "auth_missing" || code === "auth_invalid";
+}
+
+export function createRequestId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export async function readRequestBody<T>(request: Request, schema: Schema<T>): Promise<T> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new SchemaError([{ field: "body", message: "must be valid JSON" }]);
+  }
+  return parse(schema, body);
+}
+
+// Throws an ApiRequestError for failures, and a SchemaError if a success doesn't match the contract
+export function parseApiResponse<T>(data: unknown, schema: Schema<T>): T {
+  const body = data as { success?: boolean; error?: string; code?: ErrorCode; retryAfterMs?: unknown } | null;
+  if (!body?.success) {
+    const code = ERROR_CODES.find((known) => known === body?.code) ?? "internal";
+    const retryAfterMs = typeof body?.retryAfterMs === "number" ? body.retryAfterMs : undefined;
+    throw new ApiRequestError(body?.error || "Request failed", code, retryAfterMs);
+  }
+  return parse(schema, data);
+}
+
+export async function readApiResponse<T>(response: Response, schema: Schema<T>): Promise<T> {
+  return parseApiResponse(await response.json().catch(() => null), schema);
+}
@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import {
+  credentialsResponseSchema,
+  errorCodeOf,
+  isAuthError,
+  readApiResponse,
+  storeCredentialResponseSchema,
+  verifyKeyResponseSchema,
+} from "@/lib/api-contracts";
+import type { ProviderId } from "@/lib/providers/types";
+
+// Where the browser keeps each provider's API key. With the server's key vault on,
+// keys live there instead and localStorage only holds keys saved before it was.
+
+const API_KEY_STORAGE_KEYS: Partial<Record<ProviderId, string>> = {
+  google: "gemini_api_key",
+  fal: "fal_api_key",
+};
+
+export interface KeyVaultStatus {
+  enabled: boolean;
+  // Keys held for this browser, by provider, described by their last four characters
+  hints: Partial<Record<ProviderId, string>>;
+}
+
+// The outcome of asking the provider whether a key works, as shown in the settings
+export type KeyCheck =
+  | { status: "checking" }
+  | { status: "verified"; models: string[] }
+  | { status: "invalid" | "quota_exhausted" | "unverified"; message: string };
+
+// Keys saved in the browser are sent with each request; vault keys travel in a cookie
+export function getStoredApiKey(provider: ProviderId) {
+  const storageKey = API_KEY_STORAGE_KEYS[provider];
+  return storageKey ? localStorage.getItem(storageKey) : null;
+}
+
+export async function fetchKeyVaultStatus(): Promise<KeyVaultStatus> {
+  const { enabled, credentials } = await readApiResponse(
+    await fetch("/api/credentials", { cache: "no-store" }),
+    credentialsResponseSchema
+  );
+  return {
+    enabled,
+    hints: Object.fromEntries(credentials.map(({ provider, hint }) => [provider, hint])),
+  };
+}
+
+// A key saved to the vault also replaces any copy left in the browser
+export async function saveApiKey(provider: ProviderId, apiKey: string, useVault: boolean) {
+  const storageKey = API_KEY_STORAGE_KEYS[provider];
+  if (useVault) {
+    await readApiResponse(
+      await fetch("/api/credentials", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ provider, apiKey }),
+      }),
+      storeCredentialResponseSchema
+    );
+    if (storageKey) localStorage.removeItem(storageKey);
+  } else if (storageKey) {
+    localStorage.setItem(storageKey, apiKey);
+  }
+}
+
+// Moves keys saved in the browser before the vault was turned on
+async function moveApiKeysToVault(status: KeyVaultStatus) {
+  for (const provider of Object.keys(API_KEY_STORAGE_KEYS) as ProviderId[]) {
+    const apiKey = getStoredApiKey(provider);
+    if (apiKey && !status.hints[provider]) {
+      await saveApiKey(provider, apiKey, true);
+    }
+  }
+}
+
+let vaultMigration: Promise<void> | null = null;
+
+// The vault status after browser keys have moved into it. Every settings menu on the page
+// asks for it, but only the first call moves keys; the others wait for that move to finish.
+export async function loadKeyVaultStatus(): Promise<KeyVaultStatus> {
+  vaultMigration ??= fetchKeyVaultStatus()
+    .then((status) => status.enabled ? moveApiKeysToVault(status) : undefined)
+    .catch((error) => {
+      vaultMigration = null;
+      throw error;
+    });
+  await vaultMigration;
+  return fetchKeyVaultStatus();
+}
+
+// Forgets the key wherever it was kept
+export async function clearApiKey(provider: ProviderId, useVault: boolean) {
+  const storageKey = API_KEY_STORAGE_KEYS[provider];
+  if (storageKey) localStorage.removeItem(storageKey);
+  if (useVault) {
+    await fetch(`/api/credentials?provider=${provider}`, { method: "DELETE" });
+  }
+}
+
+// Without `apiKey` the server checks the key it would use: the vault's, or its own
+export async function checkApiKey(provider: ProviderId, apiKey?: string): Promise<KeyCheck> {
+  try {
+    const { models } = await readApiResponse(
+      await fetch(`/api/providers/${provider}/verify`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ apiKey }),
+      }),
+      verifyKeyResponseSchema
+    );
+    return { status: "verified", models };
+  } catch (error) {
+    const code = errorCodeOf(error);
+    const message = error instanceof Error ? error.message : "Could not verify the key";
+    if (isAuthError(code)) return { status: "invalid", message };
+    return { status: code === "quota_exceeded" ? "quota_exhausted" : "unverified", message };
+  }
+}
+
+// Key checks are shared by every settings menu on the page (the prompt bar has one for
+// each layout), so each key is checked once however many of them show its status.
+let keyChecks: Partial<Record<ProviderId, KeyCheck>> = {};
+const pendingKeyChecks: Partial<Record<ProviderId, { apiKey?: string; timer: ReturnType<typeof setTimeout> }>> = {};
+const keyCheckListeners = new Set<() => void>();
+
+function setKeyCheck(provider: ProviderId, check: KeyCheck | undefined) {
+  keyChecks = { ...keyChecks, [provider]: check };
+  keyCheckListeners.forEach((listener) => listener());
+}
+
+// Only the latest check for each provider is shown; one still in flight for an older key is dropped
+export function checkKey(provider: ProviderId, apiKey?: string, delayMs = 0) {
+  const pending = pendingKeyChecks[provider];
+  if (pending && pending.apiKey === apiKey) return;
+
+  clearTimeout(pending?.timer);
+  setKeyCheck(provider, { status: "checking" });
+  const entry = {
+    apiKey,
+    timer: setTimeout(async () => {
+      const check = await checkApiKey(provider, apiKey);
+      if (pendingKeyChecks[provider] === entry) {
+        delete pendingKeyChecks[provider];
+        setKeyCheck(provider, check);
+      }
+    }, delayMs),
+  };
+  pendingKeyChecks[provider] = entry;
+}
+
+export function clearKeyCheck(provider: ProviderId) {
+  clearTimeout(pendingKeyChecks[provider]?.timer);
+  delete pendingKeyChecks[provider];
+  setKeyCheck(provider, undefined);
+}
+
+export function useKeyChecks() {
+  const [checks, setChecks] = useState(keyChecks);
+
+  useEffect(() => {
+    const update = () => setChecks(keyChecks);
+    keyCheckListeners.add(update);
+    update();
+    return () => {
+      keyCheckListeners.delete(update);
+    };
+  }, []);
+
+  return checks;
+}
@@ -0,0 +1,36 @@
+import { createHash } from "crypto";
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+};
+
+const CONTENT_TYPES = Object.fromEntries(
+  Object.entries(EXTENSIONS).map(([contentType, extension]) => [extension, contentType])
+);
+
+// Asset ids are content hashes, so the same bytes always map to the same URL
+const ASSET_ID_PATTERN = /^[a-f0-9]{32}\.(png|jpg|webp|mp4|webm)$/;
+
+export function createAssetId(data: Buffer, contentType: string) {
+  const extension = EXTENSIONS[contentType];
+  if (!extension) {
+    throw new Error(`Unsupported asset content type: ${contentType}`);
+  }
+  return `${createHash("sha256").update(data).digest("hex").slice(0, 32)}.${extension}`;
+}
+
+export function isValidAssetId(id: string) {
+  return ASSET_ID_PATTERN.test(id);
+}
+
+export function contentTypeForAssetId(id: string) {
+  return CONTENT_TYPES[id.split(".").pop() || ""] || "application/octet-stream";
+}
+
+export function assetUrl(id: string) {
+  return `/api/assets/${id}`;
+}
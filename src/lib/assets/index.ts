@@ -0,0 +1,106 @@
+import path from "path";
+import { assetUrl, createAssetId } from "@/lib/assets/ids";
+import { createLocalAssetStore } from "@/lib/assets/local";
+import { createS3AssetStore } from "@/lib/assets/s3";
+import type { AssetStore } from "@/lib/assets/types";
+import { ProviderError, type GeneratedImage, type GeneratedVideo } from "@/lib/providers/types";
+
+export * from "@/lib/assets/ids";
+export * from "@/lib/assets/types";
+
+let assetStore: AssetStore | null = null;
+
+// ASSET_STORAGE=s3 switches to any S3-compatible bucket; local disk is the default
+export function getAssetStore(): AssetStore {
+  if (!assetStore) {
+    if (process.env.ASSET_STORAGE === "s3") {
+      assetStore = createS3AssetStore({
+        endpoint: process.env.S3_ENDPOINT || `https://s3.${process.env.S3_REGION || "us-east-1"}.amazonaws.com`,
+        region: process.env.S3_REGION || "us-east-1",
+        bucket: process.env.S3_BUCKET || "",
+        accessKeyId: process.env.S3_ACCESS_KEY_ID || "",
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+        prefix: process.env.S3_PREFIX,
+      });
+    } else {
+      assetStore = createLocalAssetStore(
+        process.env.ASSET_STORAGE_DIR || path.join(process.cwd(), ".openjourney", "assets")
+      );
+    }
+  }
+  return assetStore;
+}
+
+export async function storeAsset(data: Buffer, contentType: string) {
+  const id = createAssetId(data, contentType);
+  await getAssetStore().put(id, data, contentType);
+  return { id, url: assetUrl(id) };
+}
+
+const DATA_URL_PATTERN = /^data:([^;]+);base64,(.*)$/;
+
+// Pulls the bytes out of a data URL or downloads a remote one (e.g. FAL's CDN)
+async function readMedia(
+  url: string,
+  fallbackBytes?: string | null,
+  fallbackType = "image/png",
+  headers?: Record<string, string>
+) {
+  const dataUrlMatch = url.match(DATA_URL_PATTERN);
+  if (dataUrlMatch) {
+    return { data: Buffer.from(dataUrlMatch[2], "base64"), contentType: dataUrlMatch[1] };
+  }
+  if (fallbackBytes) {
+    return { data: Buffer.from(fallbackBytes, "base64"), contentType: fallbackType };
+  }
+
+  const response = await fetch(url, { headers });
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: ${response.status}`);
+  }
+  // File APIs often answer with a generic type (application/octet-stream)
+  const contentType = response.headers.get("content-type")?.split(";")[0];
+  return {
+    data: Buffer.from(await response.arrayBuffer()),
+    contentType: contentType && /^(image|video)\//.test(contentType) ? contentType : fallbackType,
+  };
+}
+
+/**
+ * Moves generated images into asset storage so responses carry short URLs instead
+ * of base64 payloads. Images that can't be stored keep their original URL.
+ */
+export async function storeImages(images: GeneratedImage[]): Promise<Array<Omit<GeneratedImage, "imageBytes">>> {
+  return Promise.all(images.map(async (image) => {
+    try {
+      const { data, contentType } = await readMedia(image.url, image.imageBytes);
+      const { url } = await storeAsset(data, contentType);
+      return { id: image.id, url };
+    } catch (error) {
+      console.warn(`⚠️  Failed to store image ${image.id}:`, error);
+      return { id: image.id, url: image.url };
+    }
+  }));
+}
+
+/**
+ * Stores inline (data URL) videos and ones that need credentials to download, such
+ * as Veo output. Other remote videos are left untouched. A credentialed video that
+ * can't be stored is an error: its original URL is useless to the browser.
+ */
+export async function storeVideos(videos: GeneratedVideo[]): Promise<Array<Omit<GeneratedVideo, "requestHeaders">>> {
+  return Promise.all(videos.map(async ({ requestHeaders, ...video }) => {
+    if (!requestHeaders && !DATA_URL_PATTERN.test(video.url)) return video;
+    try {
+      const { data, contentType } = await readMedia(video.url, null, "video/mp4", requestHeaders);
+      const { url } = await storeAsset(data, contentType);
+      return { ...video, url };
+    } catch (error) {
+      console.warn(`⚠️  Failed to store video ${video.id}:`, error);
+      if (requestHeaders) {
+        throw new ProviderError("Failed to download the generated video", 502);
+      }
+      return video;
+    }
+  }));
+}
@@ -0,0 +1,31 @@
+import { createReadStream } from "fs";
+import { mkdir, stat, writeFile } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { contentTypeForAssetId } from "@/lib/assets/ids";
+import type { AssetStore, ByteRange } from "@/lib/assets/types";
+
+export function createLocalAssetStore(directory: string): AssetStore {
+  const filePath = (id: string) => path.join(directory, id);
+
+  return {
+    async put(id, data) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(filePath(id), data);
+    },
+
+    async stat(id) {
+      try {
+        const { size } = await stat(filePath(id));
+        return { size, contentType: contentTypeForAssetId(id) };
+      } catch {
+        return null;
+      }
+    },
+
+    async read(id, range?: ByteRange) {
+      const stream = createReadStream(filePath(id), range ? { start: range.start, end: range.end } : undefined);
+      return Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import { createHash, createHmac } from "crypto";
+import type { AssetStore, ByteRange } from "@/lib/assets/types";
+
+export interface S3Config {
+  endpoint: string; // e.g. https://s3.us-east-1.amazonaws.com or an R2/MinIO endpoint
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix?: string;
+}
+
+const sha256Hex = (data: string | Buffer) => createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) => createHmac("sha256", key).update(data).digest();
+
+// Path-style requests signed with AWS Signature Version 4, which every S3-compatible store accepts
+export function createS3AssetStore(config: S3Config): AssetStore {
+  const objectUrl = (id: string) => {
+    const key = `${config.prefix || ""}${id}`;
+    return new URL(`${config.endpoint.replace(/\/$/, "")}/${config.bucket}/${key.split("/").map(encodeURIComponent).join("/")}`);
+  };
+
+  const signedFetch = (method: string, id: string, headers: Record<string, string> = {}, body?: Buffer) => {
+    const url = objectUrl(id);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const date = amzDate.slice(0, 8);
+    const payloadHash = body ? sha256Hex(body) : sha256Hex("");
+
+    const signedHeaders: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    const headerNames = Object.keys(signedHeaders).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      ...headerNames.map((name) => `${name}:${signedHeaders[name]}`),
+      "",
+      headerNames.join(";"),
+      payloadHash,
+    ].join("\n");
+
+    const scope = `${date}/${config.region}/s3/aws4_request`;
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+    const signingKey = ["s3", "aws4_request"].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${config.secretAccessKey}`, date), config.region)
+    );
+    const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+    return fetch(url, {
+      method,
+      headers: {
+        ...headers,
+        "x-amz-content-sha256": payloadHash,
+        "x-amz-date": amzDate,
+        authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${headerNames.join(";")}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  };
+
+  return {
+    async put(id, data, contentType) {
+      const response = await signedFetch("PUT", id, { "content-type": contentType }, data);
+      if (!response.ok) {
+        throw new Error(`S3 upload failed with status ${response.status}`);
+      }
+    },
+
+    async stat(id) {
+      const response = await signedFetch("HEAD", id);
+      if (!response.ok) return null;
+      return {
+        size: Number(response.headers.get("content-length") || 0),
+        contentType: response.headers.get("content-type") || "application/octet-stream",
+      };
+    },
+
+    async read(id, range?: ByteRange) {
+      const response = await signedFetch("GET", id, range ? { range: `bytes=${range.start}-${range.end}` } : {});
+      if (!response.ok || !response.body) {
+        throw new Error(`S3 download failed with status ${response.status}`);
+      }
+      return response.body;
+    },
+  };
+}
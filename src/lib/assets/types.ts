@@ -0,0 +1,15 @@
+export interface AssetInfo {
+  size: number;
+  contentType: string;
+}
+
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive
+}
+
+export interface AssetStore {
+  put(id: string, data: Buffer, contentType: string): Promise<void>;
+  stat(id: string): Promise<AssetInfo | null>;
+  read(id: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>>;
+}
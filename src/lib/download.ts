@@ -0,0 +1,31 @@
+// Providers return JPEG, WebP and WebM as well as PNG and MP4, so downloads are
+// named after the type the file is actually served as rather than what's expected.
+
+const DOWNLOAD_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+};
+
+function extensionFor(contentType: string) {
+  return DOWNLOAD_EXTENSIONS[contentType] || contentType.split("/")[1]?.split(";")[0] || "bin";
+}
+
+// Saves `url` as `name` plus the extension of its content type
+export async function downloadFile(url: string, name: string) {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download file (${response.status})`);
+  }
+  const blob = await response.blob();
+  const objectUrl = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = objectUrl;
+  a.download = `${name}.${extensionFor(blob.type)}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(objectUrl);
+}
@@ -0,0 +1,63 @@
+import { ProviderError } from "@/lib/providers/types";
+
+// Which optional actions the UI offers. Each deployment sets a state per action with
+// FEATURE_<NAME> (e.g. FEATURE_VIDEO=on); users can then show or hide what isn't disabled.
+
+export const FEATURES = ["video", "animate", "improve", "upscale"] as const;
+
+export type Feature = (typeof FEATURES)[number];
+
+// "on" is shown unless the user hides it, "off" is hidden unless the user shows it,
+// and "disabled" is hidden for everyone and refused by the server
+export const FEATURE_STATES = ["on", "off", "disabled"] as const;
+
+export type FeatureState = (typeof FEATURE_STATES)[number];
+
+export type FeatureFlags = Record<Feature, FeatureState>;
+
+// A user's choices for features the deployment leaves open; missing means the server's default
+export type FeatureOverrides = Partial<Record<Feature, boolean>>;
+
+export const FEATURE_LABELS: Record<Feature, string> = {
+  video: "Video from a prompt",
+  animate: "Animate images",
+  improve: "Improve, zoom and pan images",
+  upscale: "Upscale images",
+};
+
+// Veo is slow and expensive, so video stays opt-in until a deployment turns it on
+export const DEFAULT_FEATURE_FLAGS: FeatureFlags = {
+  video: "off",
+  animate: "off",
+  improve: "on",
+  upscale: "on",
+};
+
+export function isFeatureEnabled(flags: FeatureFlags, overrides: FeatureOverrides, feature: Feature) {
+  const state = flags[feature];
+  if (state === "disabled") return false;
+  return overrides[feature] ?? state === "on";
+}
+
+function isFeatureState(value: string): value is FeatureState {
+  return (FEATURE_STATES as readonly string[]).includes(value);
+}
+
+// Server only: the deployment's flags, with unrecognised values left at their default
+export function readFeatureFlags(): FeatureFlags {
+  return Object.fromEntries(FEATURES.map((feature) => {
+    const name = `FEATURE_${feature.toUpperCase()}`;
+    const value = process.env[name]?.trim().toLowerCase();
+    if (value && !isFeatureState(value)) {
+      console.warn(`⚠️ Ignoring ${name}=${value}; expected one of ${FEATURE_STATES.join(", ")}`);
+    }
+    return [feature, value && isFeatureState(value) ? value : DEFAULT_FEATURE_FLAGS[feature]];
+  })) as FeatureFlags;
+}
+
+// Server only: hiding a feature is up to each user, but a disabled one is refused outright
+export function checkFeature(feature: Feature) {
+  if (readFeatureFlags()[feature] === "disabled") {
+    throw new ProviderError(`"${FEATURE_LABELS[feature]}" is turned off on this server`, 403, "feature_disabled");
+  }
+}
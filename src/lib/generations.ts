@@ -0,0 +1,99 @@
+import type { OutpaintTransform } from "@/lib/outpaint";
+import type {
+  ErrorCode,
+  FailedImageSlot,
+  ImageParameters,
+  ProviderId,
+  ReferenceRole,
+  VariationStrength,
+} from "@/lib/providers/types";
+
+// The generation an image set was derived from by a Reroll, Vary, Upscale, Zoom/Pan or Improve action
+export interface GenerationParent {
+  id: string;
+  action: "reroll" | "vary-subtle" | "vary-strong" | "upscale-2x" | "upscale-4x" | "outpaint" | "improve";
+  // Which of the parent's tiles the action was applied to
+  imageIndex?: number;
+  transform?: OutpaintTransform;
+}
+
+export interface ImageGeneration {
+  id: string;
+  prompt: string;
+  images: Array<{
+    url: string;
+    imageBytes?: string;
+    isSample?: boolean;
+  }>;
+  timestamp: Date;
+  isLoading: boolean;
+  provider?: ProviderId;
+  model?: string;
+  seed?: number;
+  // What the images were generated with, including the seed the provider used
+  parameters?: ImageParameters;
+  // The input image for image-to-image generations, so they can be rerolled
+  sourceImage?: string;
+  // Images that guided the result without being edited, also kept for rerolls
+  references?: Array<{ url: string; role: ReferenceRole }>;
+  variation?: VariationStrength;
+  parent?: GenerationParent;
+  // Pixel size of the images, when the provider reports it (upscales do)
+  resolution?: { width: number; height: number };
+  // Requested images the provider withheld or failed to make, shown as placeholders after the images
+  failedSlots?: FailedImageSlot[];
+  // Transient provider failures retried on the way to this result
+  retries?: number;
+}
+
+export interface VideoGeneration {
+  id: string;
+  prompt: string;
+  videos: string[];
+  timestamp: Date;
+  isLoading: boolean;
+  sourceImage?: string;
+  provider?: ProviderId;
+  model?: string;
+}
+
+export interface LoadingGeneration {
+  id: string;
+  prompt: string;
+  type: "image" | "video";
+  timestamp: Date;
+  isLoading: true;
+  sourceImage?: string;
+  // Streamed results so far, indexed by tile, and the latest provider status line
+  previewImages?: Array<string | undefined>;
+  progressMessage?: string;
+  // Set once a background video job has been created for this generation
+  jobId?: string;
+  provider?: ProviderId;
+  model?: string;
+}
+
+// Shown in place of the results until it is retried or dismissed; never saved to history
+export interface FailedGeneration {
+  id: string;
+  prompt: string;
+  type: "image" | "video";
+  timestamp: Date;
+  isLoading: false;
+  sourceImage?: string;
+  // Which provider failed, so an auth error can ask for the right key
+  provider?: ProviderId;
+  // retryAt is when the server said it would accept the request again, after a rate limit
+  error: { code: ErrorCode; message: string; retryAt?: number };
+}
+
+export type Generation = ImageGeneration | VideoGeneration | LoadingGeneration | FailedGeneration;
+export type CompletedGeneration = ImageGeneration | VideoGeneration;
+export type PendingJobGeneration = LoadingGeneration & { jobId: string };
+// Generations worth keeping in history: finished ones, plus video jobs still running on the server
+export type PersistedGeneration = CompletedGeneration | PendingJobGeneration;
+
+// Ids also order history entries that share a timestamp, so two made in the same millisecond must differ
+export function createGenerationId(kind: string) {
+  return `${kind}-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
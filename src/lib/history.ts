@@ -0,0 +1,270 @@
+import type { Generation, GenerationParent, PersistedGeneration } from "@/lib/generations";
+import type { FailedImageSlot, ImageParameters, ProviderId, ReferenceRole, VariationStrength } from "@/lib/providers/types";
+
+// Generation history lives in IndexedDB: base64 image data is far too large for localStorage.
+// Images are kept as bytes, not just their server URLs, so history outlives the server's assets.
+
+const DB_NAME = "openjourney";
+const DB_VERSION = 3;
+const GENERATIONS_STORE = "generations";
+// Pages walk [timestamp, id], so generations sharing a timestamp aren't skipped at a page boundary
+const TIMESTAMP_ID_INDEX = "timestamp_id";
+
+export const HISTORY_PAGE_SIZE = 10;
+
+interface StoredImage {
+  // Where the image was served from; absent when it is rebuilt from its bytes
+  url?: string;
+  imageBytes?: string;
+  mimeType?: string;
+  // The file behind `url`, downloaded when the generation was saved
+  blob?: Blob;
+}
+
+interface StoredGeneration {
+  id: string;
+  type: "image" | "video";
+  prompt: string;
+  timestamp: number;
+  provider?: ProviderId;
+  model?: string;
+  seed?: number;
+  parameters?: ImageParameters;
+  images?: StoredImage[];
+  videos?: string[];
+  sourceImage?: string;
+  references?: Array<{ url: string; role: ReferenceRole }>;
+  variation?: VariationStrength;
+  parent?: GenerationParent;
+  resolution?: { width: number; height: number };
+  failedSlots?: FailedImageSlot[];
+  retries?: number;
+  // Present while the server is still working on a video job
+  jobId?: string;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+// Builds before v2 saved Veo URLs with the Google API key appended as ?key=
+function removeApiKey(url: string) {
+  try {
+    const parsed = new URL(url);
+    parsed.searchParams.delete("key");
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const store = db.createObjectStore(GENERATIONS_STORE, { keyPath: "id" });
+          store.createIndex("timestamp", "timestamp");
+        } else if (event.oldVersion < 2) {
+          const cursorRequest = request.transaction!.objectStore(GENERATIONS_STORE).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const stored: StoredGeneration = cursor.value;
+            if (stored.videos?.length) {
+              cursor.update({ ...stored, videos: stored.videos.map(removeApiKey) });
+            }
+            cursor.continue();
+          };
+        }
+        if (event.oldVersion < 3) {
+          request.transaction!.objectStore(GENERATIONS_STORE).createIndex(TIMESTAMP_ID_INDEX, ["timestamp", "id"]);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const DATA_URL_PATTERN = /^data:([^;]+);base64,/;
+
+// Data URLs duplicate imageBytes, so only keep the bytes and rebuild the URL on load
+async function toStoredImage({ url, imageBytes }: { url: string; imageBytes?: string }): Promise<StoredImage> {
+  const dataUrlMatch = url.match(DATA_URL_PATTERN);
+  if (dataUrlMatch && imageBytes) {
+    return { imageBytes, mimeType: dataUrlMatch[1] };
+  }
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`status ${response.status}`);
+    return { url, imageBytes, blob: await response.blob() };
+  } catch (error) {
+    // Still worth saving; the image shows for as long as the URL keeps working
+    console.warn(`Could not keep a copy of ${url} in history:`, error);
+    return { url, imageBytes };
+  }
+}
+
+function readBlobAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Stored copies come back as data URLs, which keep working when they're saved again as a source image
+async function fromStoredImage({ url, imageBytes, mimeType, blob }: StoredImage) {
+  if (blob) {
+    const dataUrl = await readBlobAsDataUrl(blob);
+    return { url: dataUrl, imageBytes: dataUrl.split(",")[1] };
+  }
+  return { url: url || `data:${mimeType || "image/png"};base64,${imageBytes}`, imageBytes };
+}
+
+async function toStoredGeneration(generation: PersistedGeneration): Promise<StoredGeneration> {
+  const base = {
+    id: generation.id,
+    prompt: generation.prompt,
+    timestamp: generation.timestamp.getTime(),
+    provider: generation.provider,
+    model: generation.model,
+  };
+
+  if ("jobId" in generation) {
+    return {
+      ...base,
+      type: generation.type,
+      sourceImage: generation.sourceImage,
+      jobId: generation.jobId,
+    };
+  }
+
+  if ("images" in generation) {
+    return {
+      ...base,
+      type: "image",
+      seed: generation.seed,
+      parameters: generation.parameters,
+      sourceImage: generation.sourceImage,
+      references: generation.references,
+      variation: generation.variation,
+      parent: generation.parent,
+      resolution: generation.resolution,
+      failedSlots: generation.failedSlots,
+      retries: generation.retries,
+      images: await Promise.all(generation.images.map(toStoredImage)),
+    };
+  }
+
+  return {
+    ...base,
+    type: "video",
+    videos: generation.videos,
+    sourceImage: generation.sourceImage,
+  };
+}
+
+async function fromStoredGeneration(stored: StoredGeneration): Promise<PersistedGeneration> {
+  if (stored.jobId) {
+    return {
+      id: stored.id,
+      prompt: stored.prompt,
+      type: stored.type,
+      timestamp: new Date(stored.timestamp),
+      isLoading: true,
+      sourceImage: stored.sourceImage,
+      jobId: stored.jobId,
+      provider: stored.provider,
+      model: stored.model,
+    };
+  }
+
+  const base = {
+    id: stored.id,
+    prompt: stored.prompt,
+    timestamp: new Date(stored.timestamp),
+    isLoading: false,
+    provider: stored.provider,
+    model: stored.model,
+  };
+
+  if (stored.type === "image") {
+    return {
+      ...base,
+      seed: stored.seed,
+      parameters: stored.parameters,
+      sourceImage: stored.sourceImage,
+      references: stored.references,
+      variation: stored.variation,
+      parent: stored.parent,
+      resolution: stored.resolution,
+      failedSlots: stored.failedSlots,
+      retries: stored.retries,
+      images: await Promise.all((stored.images || []).map(fromStoredImage)),
+    };
+  }
+
+  return {
+    ...base,
+    videos: stored.videos || [],
+    sourceImage: stored.sourceImage,
+  };
+}
+
+export async function saveGeneration(generation: PersistedGeneration) {
+  // Downloads finish first: a transaction left waiting on anything else commits early
+  const stored = await toStoredGeneration(generation);
+  const db = await openDatabase();
+  const transaction = db.transaction(GENERATIONS_STORE, "readwrite");
+  await promisify(transaction.objectStore(GENERATIONS_STORE).put(stored));
+}
+
+export async function deleteGeneration(id: string) {
+  const db = await openDatabase();
+  const transaction = db.transaction(GENERATIONS_STORE, "readwrite");
+  await promisify(transaction.objectStore(GENERATIONS_STORE).delete(id));
+}
+
+/**
+ * Loads a page of history, newest first. Pass the oldest generation already
+ * shown as `before` to fetch the next page.
+ */
+export async function loadGenerations(
+  before?: Pick<Generation, "id" | "timestamp">,
+  limit = HISTORY_PAGE_SIZE
+): Promise<Generation[]> {
+  const db = await openDatabase();
+  const index = db.transaction(GENERATIONS_STORE, "readonly").objectStore(GENERATIONS_STORE).index(TIMESTAMP_ID_INDEX);
+  const range = before ? IDBKeyRange.upperBound([before.timestamp.getTime(), before.id], true) : undefined;
+
+  const page = await new Promise<StoredGeneration[]>((resolve, reject) => {
+    const results: StoredGeneration[] = [];
+    const request = index.openCursor(range, "prev");
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || results.length >= limit) {
+        resolve(results);
+        return;
+      }
+      results.push(cursor.value);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+  // Decoded once the cursor is done, since the transaction ends while anything else is awaited
+  return Promise.all(page.map(fromStoredGeneration));
+}
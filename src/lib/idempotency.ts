@@ -0,0 +1,75 @@
+import { createHash } from "crypto";
+import { getClientId } from "@/lib/rate-limit";
+
+// Requests that carry a requestId run once: resending the same id (a client retrying
+// after a dropped connection, a double submit) gets the first request's result
+// rather than paying the provider for a second generation.
+
+// Long enough to cover a client resending after a slow generation times out on its side
+const RESULT_RETENTION_MS = 10 * 60 * 1000;
+
+interface RunningRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  // Callers still waiting for the result
+  waiting: number;
+}
+
+// Stored on globalThis so in-flight requests survive module reloads in `next dev`
+const globalForRequests = globalThis as typeof globalThis & { runningRequests?: Map<string, RunningRequest> };
+const requests = globalForRequests.runningRequests ?? (globalForRequests.runningRequests = new Map());
+
+function hash(value: string) {
+  return createHash("sha256").update(value).digest("hex").slice(0, 32);
+}
+
+/**
+ * The key runOnce keeps a request's result under. It's scoped to the caller (their
+ * own API key, stored or sent, or getClientId when they use the server's) and to
+ * the request body, so the same id from someone else or with other input runs anew.
+ */
+export function idempotencyKey(
+  request: Request,
+  kind: string,
+  { requestId, ...body }: { requestId?: string },
+  userApiKey?: string | null
+) {
+  if (!requestId) return undefined;
+  const caller = userApiKey ? `key:${userApiKey}` : getClientId(request);
+  return `${kind}:${hash(caller)}:${requestId}:${hash(JSON.stringify(body))}`;
+}
+
+/**
+ * `signal` says when this caller stops waiting (e.g. its client disconnected). The
+ * signal `run` gets aborts once every caller has stopped, since a resend may still
+ * want the result until then; callers without one keep it running to the end.
+ */
+export function runOnce<T>(
+  key: string | undefined,
+  run: (signal?: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!key) return run(signal);
+
+  let entry = requests.get(key);
+  if (entry) {
+    console.log(`♻️  Reusing the result of request ${key}`);
+  } else {
+    const controller = new AbortController();
+    const promise = run(controller.signal);
+    entry = { promise, controller, waiting: 0 };
+    requests.set(key, entry);
+    // Failures are forgotten straight away so the same id can be tried again
+    promise.then(
+      () => setTimeout(() => requests.delete(key), RESULT_RETENTION_MS).unref?.(),
+      () => requests.delete(key)
+    );
+  }
+
+  const running = entry;
+  running.waiting++;
+  signal?.addEventListener("abort", () => {
+    if (--running.waiting === 0) running.controller.abort();
+  }, { once: true });
+  return running.promise as Promise<T>;
+}
@@ -0,0 +1,38 @@
+import type { InputImage } from "@/lib/providers/types";
+
+// Images arrive as URLs; their base64 bytes are only downloaded when an action
+// such as improve or animate needs to send them back to a provider.
+export async function fetchImage(url: string): Promise<InputImage> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load image data (${response.status})`);
+  }
+  const blob = await response.blob();
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      // Remove the data:image/...;base64, prefix to get just the base64 data
+      resolve({
+        imageBytes: (reader.result as string).split(',')[1],
+        mimeType: blob.type || "image/png"
+      });
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+export async function fetchImageBytes(url: string): Promise<string> {
+  return (await fetchImage(url)).imageBytes;
+}
+
+const DATA_URL_PATTERN = /^data:([^;]+);base64,/;
+
+// Reuses bytes already held for a tile, taking their type from its data URL
+export function resolveImage(url: string, imageBytes?: string): Promise<InputImage> {
+  const mimeType = url.match(DATA_URL_PATTERN)?.[1];
+  return imageBytes && mimeType
+    ? Promise.resolve({ imageBytes, mimeType })
+    : fetchImage(url);
+}
@@ -0,0 +1,49 @@
+import type { InputImage } from "@/lib/providers/types";
+
+// Formats that survive re-encoding as themselves; anything else becomes PNG
+const PRESERVED_TYPES = ["image/png", "image/jpeg", "image/webp"];
+const LOSSY_QUALITY = 0.92;
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => blob ? resolve(blob) : reject(new Error("Failed to encode the image")),
+      type,
+      LOSSY_QUALITY
+    );
+  });
+}
+
+function blobToBase64(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(",")[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Decodes an upload in the browser and re-encodes it upright (EXIF orientation
+ * applied), no larger than `maxSize` on its longest side. The returned type is
+ * the one the browser actually encoded, since not every browser can write WebP.
+ */
+export async function normalizeImage(source: Blob | string, maxSize: number): Promise<InputImage> {
+  const blob = typeof source === "string" ? await (await fetch(source)).blob() : source;
+  const bitmap = await createImageBitmap(blob, { imageOrientation: "from-image" });
+
+  try {
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext("2d")!;
+    context.imageSmoothingQuality = "high";
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    const encoded = await canvasToBlob(canvas, PRESERVED_TYPES.includes(blob.type) ? blob.type : "image/png");
+    return { imageBytes: await blobToBase64(encoded), mimeType: encoded.type };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,134 @@
+import { randomUUID } from "crypto";
+import { storeVideos } from "@/lib/assets";
+import { acquireProviderSlot } from "@/lib/rate-limit";
+import {
+  ProviderError,
+  type ErrorCode,
+  type GeneratedVideo,
+  type GenerationMode,
+  type ProviderId,
+  type VideoGenerationRequest,
+  type VideoProvider,
+} from "@/lib/providers/types";
+
+// Video jobs run in the background of the server process: the POST that creates
+// one returns straight away and clients poll /api/jobs/:id for the result.
+
+const JOB_TIMEOUT_MS = 10 * 60 * 1000;
+// Finished jobs stay readable for a while so a refreshed page can still pick up the result
+const JOB_RETENTION_MS = 60 * 60 * 1000;
+
+export type JobStatus = "running" | "succeeded" | "failed";
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  provider: ProviderId;
+  model: string;
+  mode: GenerationMode;
+  prompt: string;
+  createdAt: number;
+  updatedAt: number;
+  videos?: GeneratedVideo[];
+  error?: string;
+  errorCode?: ErrorCode;
+}
+
+interface JobRecord {
+  job: Job;
+  provider: VideoProvider;
+  operationId: string;
+  // Kept in memory only, and only for as long as the worker needs it
+  apiKey: string;
+  // The provider concurrency slot this job holds until it finishes
+  releaseSlot: () => Promise<void>;
+}
+
+// Stored on globalThis so jobs survive module reloads in `next dev`
+const globalForJobs = globalThis as typeof globalThis & { videoJobs?: Map<string, JobRecord> };
+const jobs = globalForJobs.videoJobs ?? (globalForJobs.videoJobs = new Map());
+
+function updateJob(record: JobRecord, changes: Partial<Job>) {
+  record.job = { ...record.job, ...changes, updatedAt: Date.now() };
+}
+
+function finishJob(record: JobRecord, changes: Partial<Job>) {
+  updateJob(record, changes);
+  record.apiKey = "";
+  void record.releaseSlot();
+  setTimeout(() => jobs.delete(record.job.id), JOB_RETENTION_MS).unref?.();
+}
+
+async function pollJob(record: JobRecord) {
+  try {
+    const { done, videos } = await record.provider.getVideoOperation(record.operationId, record.apiKey);
+
+    if (done) {
+      finishJob(record, { status: "succeeded", videos: await storeVideos(videos || []) });
+      console.log(`✅ Video job ${record.job.id} finished`);
+      return;
+    }
+
+    if (Date.now() - record.job.createdAt > JOB_TIMEOUT_MS) {
+      finishJob(record, { status: "failed", error: "Video generation timed out", errorCode: "timeout" });
+      return;
+    }
+
+    updateJob(record, {});
+    setTimeout(() => pollJob(record), record.provider.videoPollIntervalMs);
+  } catch (error) {
+    console.error(`💥 Video job ${record.job.id} failed:`, error);
+    finishJob(record, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Video generation failed",
+      errorCode: error instanceof ProviderError ? error.code : "internal",
+    });
+  }
+}
+
+/**
+ * Starts a video generation and hands it to the background worker. Errors from
+ * starting the operation (bad key, unknown model) are thrown to the caller.
+ */
+export async function createVideoJob(
+  provider: VideoProvider,
+  mode: GenerationMode,
+  request: VideoGenerationRequest,
+  apiKey: string
+): Promise<Job> {
+  const releaseSlot = await acquireProviderSlot(provider);
+  let operationId: string;
+  try {
+    operationId = await provider.startVideoGeneration(request, apiKey);
+  } catch (error) {
+    await releaseSlot();
+    throw error;
+  }
+  const now = Date.now();
+  const record: JobRecord = {
+    job: {
+      id: randomUUID(),
+      status: "running",
+      provider: provider.id,
+      model: request.model,
+      mode,
+      prompt: request.prompt,
+      createdAt: now,
+      updatedAt: now,
+    },
+    provider,
+    operationId,
+    apiKey,
+    releaseSlot,
+  };
+
+  jobs.set(record.job.id, record);
+  setTimeout(() => pollJob(record), provider.videoPollIntervalMs);
+  console.log(`🎬 Started video job ${record.job.id} (${provider.id}/${request.model})`);
+
+  return record.job;
+}
+
+export function getJob(id: string): Job | null {
+  return jobs.get(id)?.job ?? null;
+}
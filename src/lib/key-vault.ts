@@ -0,0 +1,146 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import { mkdir, readFile, unlink, writeFile } from "fs/promises";
+import path from "path";
+import type { NextRequest } from "next/server";
+import { ProviderError, type ProviderId } from "@/lib/providers/types";
+
+// Keys posted to /api/credentials are encrypted with KEY_VAULT_SECRET and written to
+// disk. The browser only keeps an opaque credential id, in an httpOnly cookie it
+// can't read, so the key itself is sent once and never again.
+
+const CREDENTIAL_ID_PATTERN = /^[\w-]{32}$/;
+// How long a browser keeps pointing at its stored key
+export const CREDENTIAL_COOKIE_MAX_AGE_S = 90 * 24 * 60 * 60;
+
+export interface StoredCredential {
+  id: string;
+  provider: ProviderId;
+  // The last four characters, enough to tell keys apart in the settings
+  hint: string;
+  createdAt: number;
+}
+
+interface CredentialFile extends Omit<StoredCredential, "id"> {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+let encryptionKey: Buffer | null = null;
+
+export function isKeyVaultEnabled() {
+  return !!process.env.KEY_VAULT_SECRET;
+}
+
+function getEncryptionKey() {
+  const secret = process.env.KEY_VAULT_SECRET;
+  if (!secret) {
+    throw new ProviderError("The key vault is disabled; set KEY_VAULT_SECRET on the server to enable it", 501, "internal");
+  }
+  return encryptionKey ?? (encryptionKey = scryptSync(secret, "openjourney-key-vault", 32));
+}
+
+function credentialPath(id: string) {
+  const directory = process.env.KEY_VAULT_DIR || path.join(process.cwd(), ".openjourney", "credentials");
+  return path.join(directory, `${id}.json`);
+}
+
+const CREDENTIAL_COOKIE_PREFIX = "openjourney-key-";
+
+export function credentialCookieName(provider: ProviderId) {
+  return `${CREDENTIAL_COOKIE_PREFIX}${provider}`;
+}
+
+// The credential ids of every vault cookie the request carries
+export function readCredentialCookies(request: NextRequest): string[] {
+  return request.cookies.getAll()
+    .filter(({ name }) => name.startsWith(CREDENTIAL_COOKIE_PREFIX))
+    .map(({ value }) => value);
+}
+
+// The id and provider are bound in as associated data, so a file copied under another id won't decrypt
+function associatedData(id: string, provider: ProviderId) {
+  return Buffer.from(`${id}:${provider}`);
+}
+
+export async function storeCredential(provider: ProviderId, apiKey: string): Promise<StoredCredential> {
+  const key = getEncryptionKey();
+  const id = randomBytes(24).toString("base64url");
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv).setAAD(associatedData(id, provider));
+  const data = Buffer.concat([cipher.update(apiKey, "utf8"), cipher.final()]);
+
+  const credential: StoredCredential = { id, provider, hint: apiKey.slice(-4), createdAt: Date.now() };
+  const file: CredentialFile = {
+    provider,
+    hint: credential.hint,
+    createdAt: credential.createdAt,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+
+  await mkdir(path.dirname(credentialPath(id)), { recursive: true });
+  await writeFile(credentialPath(id), JSON.stringify(file), { mode: 0o600 });
+  return credential;
+}
+
+async function readCredentialFile(id: string): Promise<CredentialFile | null> {
+  if (!CREDENTIAL_ID_PATTERN.test(id)) return null;
+  try {
+    return JSON.parse(await readFile(credentialPath(id), "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+export async function describeCredential(id: string): Promise<StoredCredential | null> {
+  const file = await readCredentialFile(id);
+  return file && { id, provider: file.provider, hint: file.hint, createdAt: file.createdAt };
+}
+
+// Null for unknown ids, another provider's credential, or one sealed with a different secret
+export async function readCredential(id: string, provider: ProviderId): Promise<string | null> {
+  const file = await readCredentialFile(id);
+  if (!file || file.provider !== provider) return null;
+
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", getEncryptionKey(), Buffer.from(file.iv, "base64"))
+      .setAAD(associatedData(id, provider))
+      .setAuthTag(Buffer.from(file.tag, "base64"));
+    return Buffer.concat([decipher.update(Buffer.from(file.data, "base64")), decipher.final()]).toString("utf8");
+  } catch {
+    return null;
+  }
+}
+
+export async function deleteCredential(id: string) {
+  if (!CREDENTIAL_ID_PATTERN.test(id)) return;
+  await unlink(credentialPath(id)).catch(() => {});
+}
+
+/**
+ * Finds the API key a request brings for `provider`: a key in the body wins, then
+ * a credential id in the body, then the vault cookie. Undefined means none, which
+ * lets resolveApiKey fall back to the server's own key.
+ */
+export async function readUserApiKey(
+  request: NextRequest,
+  provider: ProviderId,
+  sent: { apiKey?: string; credentialId?: string }
+): Promise<string | undefined> {
+  if (sent.apiKey) return sent.apiKey;
+
+  if (sent.credentialId) {
+    const apiKey = await readCredential(sent.credentialId, provider);
+    if (!apiKey) {
+      throw new ProviderError("No stored key for this provider matches that credential id. Please add your key again.", 401, "auth_invalid");
+    }
+    return apiKey;
+  }
+
+  // A stale cookie, or one left over from before the vault was turned off, is ignored
+  const cookieId = request.cookies.get(credentialCookieName(provider))?.value;
+  if (!cookieId || !isKeyVaultEnabled()) return undefined;
+  return (await readCredential(cookieId, provider)) ?? undefined;
+}
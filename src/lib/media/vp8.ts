@@ -0,0 +1,268 @@
+import { COEFFICIENT_UPDATE_PROBS, DEFAULT_COEFFICIENT_PROBS } from "@/lib/media/vp8-tables";
+
+// A deliberately tiny VP8 (RFC 6386) keyframe encoder. Every 16x16 macroblock is a
+// single flat colour: it uses DC prediction plus a DC-only residual, so the
+// reconstruction is exact and no real transform/quantisation search is needed.
+// That's enough to produce playable procedural clips without native codecs.
+
+export interface MacroblockColor {
+  y: number;
+  u: number;
+  v: number;
+}
+
+// Block types used by the coefficient probability tables
+const BLOCK_TYPE_Y_AFTER_Y2 = 0;
+const BLOCK_TYPE_Y2 = 1;
+const BLOCK_TYPE_CHROMA = 2;
+
+// Coefficient position -> probability band
+const COEFFICIENT_BANDS = [0, 1, 2, 3, 6, 4, 5, 6, 6, 6, 6, 6, 6, 6, 6, 7];
+
+const KF_YMODE_PROBS = [145, 156, 163, 128];
+const KF_UV_MODE_PROBS = [142, 114, 183];
+const SKIP_PROB = 64;
+
+// Extra bits for the DCT_CAT1..DCT_CAT6 tokens
+const CATEGORY_EXTRA_BITS = [
+  { base: 5, probs: [159] },
+  { base: 7, probs: [165, 145] },
+  { base: 11, probs: [173, 148, 140] },
+  { base: 19, probs: [176, 155, 140, 135] },
+  { base: 35, probs: [180, 157, 141, 134, 130] },
+  { base: 67, probs: [254, 254, 243, 230, 196, 177, 153, 140, 133, 130, 129] },
+];
+
+// Boolean entropy encoder from RFC 6386 section 7.3
+class BoolEncoder {
+  private output: number[] = [];
+  private range = 255;
+  private bottom = 0;
+  private bitCount = 24;
+
+  writeBool(prob: number, value: boolean | number) {
+    const split = 1 + (((this.range - 1) * prob) >> 8);
+    if (value) {
+      this.bottom = (this.bottom + split) >>> 0;
+      this.range -= split;
+    } else {
+      this.range = split;
+    }
+    while (this.range < 128) {
+      this.range <<= 1;
+      if (this.bottom & 0x80000000) {
+        this.carry();
+      }
+      this.bottom = (this.bottom << 1) >>> 0;
+      if (!--this.bitCount) {
+        this.output.push(this.bottom >>> 24);
+        this.bottom &= 0xffffff;
+        this.bitCount = 8;
+      }
+    }
+  }
+
+  writeLiteral(value: number, bits: number) {
+    for (let bit = bits - 1; bit >= 0; bit--) {
+      this.writeBool(128, (value >> bit) & 1);
+    }
+  }
+
+  finish(): Uint8Array {
+    let c = this.bitCount;
+    let v = this.bottom;
+    if (v & (1 << (32 - c))) {
+      this.carry();
+    }
+    v = (v << (c & 7)) >>> 0;
+    c >>= 3;
+    while (--c >= 0) {
+      v = (v << 8) >>> 0;
+    }
+    for (let i = 0; i < 4; i++) {
+      this.output.push(v >>> 24);
+      v = (v << 8) >>> 0;
+    }
+    return Uint8Array.from(this.output);
+  }
+
+  private carry() {
+    let i = this.output.length - 1;
+    while (i >= 0 && this.output[i] === 255) {
+      this.output[i--] = 0;
+    }
+    this.output[i]++;
+  }
+}
+
+// Writes one 4x4 block whose only (possibly zero) coefficient is at `first`.
+// Returns whether the block had a non-zero coefficient, for neighbour contexts.
+function writeBlock(encoder: BoolEncoder, type: number, first: number, context: number, level: number) {
+  const probs = DEFAULT_COEFFICIENT_PROBS[type];
+  const p = probs[COEFFICIENT_BANDS[first]][context];
+
+  if (level === 0) {
+    encoder.writeBool(p[0], 0); // EOB
+    return false;
+  }
+
+  const magnitude = Math.abs(level);
+  encoder.writeBool(p[0], 1); // not EOB
+  encoder.writeBool(p[1], 1); // not DCT_0
+  if (magnitude === 1) {
+    encoder.writeBool(p[2], 0);
+  } else {
+    encoder.writeBool(p[2], 1);
+    if (magnitude <= 4) {
+      encoder.writeBool(p[3], 0);
+      if (magnitude === 2) {
+        encoder.writeBool(p[4], 0);
+      } else {
+        encoder.writeBool(p[4], 1);
+        encoder.writeBool(p[5], magnitude === 4);
+      }
+    } else {
+      const category = CATEGORY_EXTRA_BITS.findLastIndex(({ base }) => magnitude >= base);
+      encoder.writeBool(p[3], 1);
+      if (category < 2) {
+        encoder.writeBool(p[6], 0);
+        encoder.writeBool(p[7], category === 1);
+      } else {
+        encoder.writeBool(p[6], 1);
+        encoder.writeBool(p[8], category >= 4);
+        encoder.writeBool(category >= 4 ? p[10] : p[9], category % 2 === 1);
+      }
+      const { base, probs: extraProbs } = CATEGORY_EXTRA_BITS[category];
+      const extra = magnitude - base;
+      extraProbs.forEach((prob, index) => {
+        encoder.writeBool(prob, (extra >> (extraProbs.length - 1 - index)) & 1);
+      });
+    }
+  }
+  encoder.writeBool(128, level < 0);
+
+  // The next position is always end-of-block
+  const nextContext = magnitude === 1 ? 1 : 2;
+  encoder.writeBool(probs[COEFFICIENT_BANDS[first + 1]][nextContext][0], 0);
+  return true;
+}
+
+// DC prediction for a flat macroblock, given the flat colours above and to the left
+function predictDc(above: number | undefined, left: number | undefined) {
+  if (above === undefined && left === undefined) return 128;
+  if (above === undefined) return left!;
+  if (left === undefined) return above;
+  return (above + left + 1) >> 1;
+}
+
+export function rgbToYuv(r: number, g: number, b: number): MacroblockColor {
+  const clamp = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+  return {
+    y: clamp(16 + (65.481 * r + 128.553 * g + 24.966 * b) / 255),
+    u: clamp(128 + (-37.797 * r - 74.203 * g + 112 * b) / 255),
+    v: clamp(128 + (112 * r - 93.786 * g - 18.214 * b) / 255),
+  };
+}
+
+/**
+ * Encodes a keyframe where `colors[row][column]` is the colour of each 16x16 macroblock.
+ * The grid must cover ceil(width / 16) x ceil(height / 16) macroblocks.
+ */
+export function encodeVp8Keyframe(width: number, height: number, colors: MacroblockColor[][]): Uint8Array {
+  const mbCols = Math.ceil(width / 16);
+  const mbRows = Math.ceil(height / 16);
+
+  const header = new BoolEncoder();
+  header.writeLiteral(0, 1); // color space
+  header.writeLiteral(0, 1); // clamping type
+  header.writeLiteral(0, 1); // segmentation disabled
+  header.writeLiteral(0, 1); // filter type
+  header.writeLiteral(0, 6); // loop filter level (off, keeps macroblocks flat)
+  header.writeLiteral(0, 3); // sharpness
+  header.writeLiteral(0, 1); // no loop filter deltas
+  header.writeLiteral(0, 2); // one token partition
+  header.writeLiteral(0, 7); // quantizer index 0, i.e. the finest steps
+  for (let i = 0; i < 5; i++) {
+    header.writeLiteral(0, 1); // no quantizer deltas
+  }
+  header.writeLiteral(0, 1); // refresh entropy probs
+  COEFFICIENT_UPDATE_PROBS.flat(3).forEach((prob) => header.writeBool(prob, 0));
+  header.writeLiteral(1, 1); // macroblock skip flags enabled
+  header.writeLiteral(SKIP_PROB, 8);
+
+  const tokens = new BoolEncoder();
+  // Non-zero flags of the neighbouring blocks, used as token contexts
+  const aboveNonZero = Array.from({ length: mbCols }, () => ({ y2: false, u: [false, false], v: [false, false] }));
+
+  for (let mby = 0; mby < mbRows; mby++) {
+    let leftNonZero = { y2: false, u: [false, false], v: [false, false] };
+
+    for (let mbx = 0; mbx < mbCols; mbx++) {
+      const target = colors[mby][mbx];
+      const above = mby > 0 ? colors[mby - 1][mbx] : undefined;
+      const left = mbx > 0 ? colors[mby][mbx - 1] : undefined;
+
+      // At quantizer index 0 these levels reconstruct the residual exactly
+      const y2Level = 8 * (target.y - predictDc(above?.y, left?.y));
+      const uLevel = 2 * (target.u - predictDc(above?.u, left?.u));
+      const vLevel = 2 * (target.v - predictDc(above?.v, left?.v));
+      const skip = y2Level === 0 && uLevel === 0 && vLevel === 0;
+
+      header.writeBool(SKIP_PROB, skip);
+      // DC_PRED for luma and chroma
+      header.writeBool(KF_YMODE_PROBS[0], 1);
+      header.writeBool(KF_YMODE_PROBS[1], 0);
+      header.writeBool(KF_YMODE_PROBS[2], 0);
+      header.writeBool(KF_UV_MODE_PROBS[0], 0);
+
+      const current = aboveNonZero[mbx];
+      if (skip) {
+        aboveNonZero[mbx] = { y2: false, u: [false, false], v: [false, false] };
+        leftNonZero = { y2: false, u: [false, false], v: [false, false] };
+        continue;
+      }
+
+      const y2 = writeBlock(tokens, BLOCK_TYPE_Y2, 0, Number(current.y2) + Number(leftNonZero.y2), y2Level);
+
+      // The luma blocks carry no AC energy, so each is an immediate end-of-block
+      for (let i = 0; i < 16; i++) {
+        writeBlock(tokens, BLOCK_TYPE_Y_AFTER_Y2, 1, 0, 0);
+      }
+
+      const writeChroma = (level: number, aboveFlags: boolean[], leftFlags: boolean[]) => {
+        const nextAbove = [...aboveFlags];
+        const nextLeft = [...leftFlags];
+        for (let row = 0; row < 2; row++) {
+          for (let col = 0; col < 2; col++) {
+            const nonZero = writeBlock(tokens, BLOCK_TYPE_CHROMA, 0, Number(nextAbove[col]) + Number(nextLeft[row]), level);
+            nextAbove[col] = nonZero;
+            nextLeft[row] = nonZero;
+          }
+        }
+        return { above: nextAbove, left: nextLeft };
+      };
+      const u = writeChroma(uLevel, current.u, leftNonZero.u);
+      const v = writeChroma(vLevel, current.v, leftNonZero.v);
+
+      aboveNonZero[mbx] = { y2, u: u.above, v: v.above };
+      leftNonZero = { y2, u: u.left, v: v.left };
+    }
+  }
+
+  const firstPartition = header.finish();
+  const tokenPartition = tokens.finish();
+
+  const frame = new Uint8Array(10 + firstPartition.length + tokenPartition.length);
+  const frameTag = (firstPartition.length << 5) | (1 << 4); // keyframe, version 0, shown
+  frame[0] = frameTag & 0xff;
+  frame[1] = (frameTag >> 8) & 0xff;
+  frame[2] = (frameTag >> 16) & 0xff;
+  frame.set([0x9d, 0x01, 0x2a], 3);
+  frame[6] = width & 0xff;
+  frame[7] = (width >> 8) & 0x3f;
+  frame[8] = height & 0xff;
+  frame[9] = (height >> 8) & 0x3f;
+  frame.set(firstPartition, 10);
+  frame.set(tokenPartition, 10 + firstPartition.length);
+  return frame;
+}
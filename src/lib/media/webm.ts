@@ -0,0 +1,119 @@
+// Minimal WebM (Matroska) muxer for a single VP8 video track of keyframes.
+// Only what browsers need to play a short clip: no cues, one cluster.
+
+type EbmlValue = Uint8Array | EbmlElement[];
+type EbmlElement = [id: number, value: EbmlValue];
+
+function encodeId(id: number) {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value & 0xff);
+  }
+  return Uint8Array.from(bytes);
+}
+
+// EBML variable-length size: a length marker bit followed by the value
+function encodeSize(size: number) {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) {
+    length++;
+  }
+  const bytes = new Uint8Array(length);
+  let value = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value & 0xff;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+}
+
+function uint(value: number) {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value & 0xff);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return Uint8Array.from(bytes);
+}
+
+function float(value: number) {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+}
+
+function string(value: string) {
+  return new TextEncoder().encode(value);
+}
+
+function concat(parts: Uint8Array[]) {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function encodeElement([id, value]: EbmlElement): Uint8Array {
+  const payload = value instanceof Uint8Array ? value : concat(value.map(encodeElement));
+  return concat([encodeId(id), encodeSize(payload.length), payload]);
+}
+
+function simpleBlock(frame: Uint8Array, timecode: number) {
+  const header = new Uint8Array(4);
+  header[0] = 0x81; // track number 1
+  new DataView(header.buffer).setInt16(1, timecode);
+  header[3] = 0x80; // keyframe
+  return concat([header, frame]);
+}
+
+/**
+ * Wraps VP8 keyframes into a playable WebM file.
+ */
+export function muxWebm(frames: Uint8Array[], width: number, height: number, fps: number): Uint8Array {
+  const frameDurationMs = 1000 / fps;
+
+  const ebmlHeader: EbmlElement = [0x1a45dfa3, [
+    [0x4286, uint(1)], // EBMLVersion
+    [0x42f7, uint(1)], // EBMLReadVersion
+    [0x42f2, uint(4)], // EBMLMaxIDLength
+    [0x42f3, uint(8)], // EBMLMaxSizeLength
+    [0x4282, string("webm")], // DocType
+    [0x4287, uint(2)], // DocTypeVersion
+    [0x4285, uint(2)], // DocTypeReadVersion
+  ]];
+
+  const segment: EbmlElement = [0x18538067, [
+    [0x1549a966, [ // Info
+      [0x2ad7b1, uint(1000000)], // TimecodeScale: 1ms
+      [0x4d80, string("openjourney")], // MuxingApp
+      [0x5741, string("openjourney")], // WritingApp
+      [0x4489, float(frames.length * frameDurationMs)], // Duration
+    ]],
+    [0x1654ae6b, [ // Tracks
+      [0xae, [ // TrackEntry
+        [0xd7, uint(1)], // TrackNumber
+        [0x73c5, uint(1)], // TrackUID
+        [0x83, uint(1)], // TrackType: video
+        [0x86, string("V_VP8")], // CodecID
+        [0x23e383, uint(Math.round(frameDurationMs * 1000000))], // DefaultDuration (ns)
+        [0xe0, [ // Video
+          [0xb0, uint(width)], // PixelWidth
+          [0xba, uint(height)], // PixelHeight
+        ]],
+      ]],
+    ]],
+    [0x1f43b675, [ // Cluster
+      [0xe7, uint(0)], // Timecode
+      ...frames.map((frame, index): EbmlElement => [
+        0xa3, // SimpleBlock
+        simpleBlock(frame, Math.round(index * frameDurationMs)),
+      ]),
+    ]],
+  ]];
+
+  return concat([encodeElement(ebmlHeader), encodeElement(segment)]);
+}
@@ -0,0 +1,75 @@
+import { useEffect, useState } from "react";
+import { modelCatalogResponseSchema, readApiResponse, type CatalogModel } from "@/lib/api-contracts";
+import type { ImageParameterSupport } from "@/lib/providers/capabilities";
+import type { ModelPrice, ProviderId } from "@/lib/providers/types";
+
+// The browser's copy of /api/models. Until it arrives (or if it can't be fetched)
+// lookups return null and callers fall back to what the server would do anyway.
+
+export type ModelCapability = keyof CatalogModel["capabilities"];
+
+let catalogRequest: Promise<CatalogModel[]> | null = null;
+
+// One request per page load; a failed one is retried by the next caller
+export function fetchModelCatalog(): Promise<CatalogModel[]> {
+  catalogRequest ??= fetch("/api/models")
+    .then((response) => readApiResponse(response, modelCatalogResponseSchema))
+    .then(({ models }) => models)
+    .catch((error) => {
+      catalogRequest = null;
+      throw error;
+    });
+  return catalogRequest;
+}
+
+export function useModelCatalog(): CatalogModel[] | null {
+  const [catalog, setCatalog] = useState<CatalogModel[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchModelCatalog()
+      .then((models) => {
+        if (!cancelled) setCatalog(models);
+      })
+      .catch((error) => {
+        console.error("Failed to load the model catalog:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return catalog;
+}
+
+// The named model, or without one the model the provider generates images with by default
+export function findModel(catalog: CatalogModel[] | null, provider: ProviderId, model?: string) {
+  return catalog?.find((entry) => entry.provider === provider && (model
+    ? entry.id === model
+    : entry.defaultModes.includes("text-to-image"))) ?? null;
+}
+
+// FAL is the one provider where the user picks the model, from those that work from a prompt alone
+export function fluxModelOptions(catalog: CatalogModel[] | null) {
+  return (catalog ?? []).filter(({ provider, capabilities }) => provider === "fal" && capabilities.textToImage);
+}
+
+// True while the catalog is unknown, so actions stay available and the server has the final say
+export function providerSupports(catalog: CatalogModel[] | null, provider: ProviderId, capability: ModelCapability) {
+  return !catalog || catalog.some((entry) => entry.provider === provider && entry.capabilities[capability]);
+}
+
+export function imageParameterSupportOf(model: CatalogModel | null): ImageParameterSupport | null {
+  const parameters = model?.imageParameters;
+  return parameters ? { ...parameters, guidanceScale: parameters.guidanceScale ?? null } : null;
+}
+
+const PRICE_UNITS: Record<ModelPrice["per"], string> = {
+  image: "image",
+  megapixel: "megapixel",
+  second: "second of video",
+};
+
+export function formatPrice({ usd, per }: ModelPrice) {
+  return usd === 0 ? "Free" : `$${usd} per ${PRICE_UNITS[per]}`;
+}
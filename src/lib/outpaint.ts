@@ -0,0 +1,102 @@
+import type { InputImage } from "@/lib/providers/types";
+
+// MidJourney-style Zoom Out and Pan: the image is placed on a larger canvas and
+// the new border is masked for an inpainting model to fill in.
+
+export type PanDirection = "left" | "right" | "up" | "down";
+
+export type OutpaintTransform =
+  | { type: "zoom-out"; factor: 1.5 | 2 }
+  | { type: "pan"; direction: PanDirection };
+
+export const ZOOM_TRANSFORMS: OutpaintTransform[] = [
+  { type: "zoom-out", factor: 1.5 },
+  { type: "zoom-out", factor: 2 },
+];
+
+export const PAN_TRANSFORMS: OutpaintTransform[] = [
+  { type: "pan", direction: "left" },
+  { type: "pan", direction: "right" },
+  { type: "pan", direction: "up" },
+  { type: "pan", direction: "down" },
+];
+
+// A pan grows the image by half its size in that direction
+const PAN_EXTENSION = 0.5;
+// The mask reaches this far into the original so the seam gets repainted too
+const MASK_OVERLAP = 8;
+// Neutral fill for the new area; the model only sees it through the mask
+const PADDING_COLOR = "#808080";
+
+export function describeOutpaint(transform: OutpaintTransform) {
+  return transform.type === "zoom-out"
+    ? `Zoom out ${transform.factor}x`
+    : `Pan ${transform.direction}`;
+}
+
+export function outpaintPrompt(prompt: string) {
+  return `Fill the empty border so the picture continues seamlessly beyond its original edges, matching its style and lighting. The picture shows: ${prompt}`;
+}
+
+function loadImage(src: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new window.Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to read the image"));
+    image.src = src;
+  });
+}
+
+function createCanvas(width: number, height: number, color: string) {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d")!;
+  context.fillStyle = color;
+  context.fillRect(0, 0, width, height);
+  return { canvas, context };
+}
+
+const toBase64 = (canvas: HTMLCanvasElement) => canvas.toDataURL("image/png").split(",")[1];
+
+/**
+ * Pads the image for the transform and builds the matching mask (white where
+ * the model should paint). Both come back as base64 PNGs of the same size.
+ */
+export async function buildOutpaintInput({ imageBytes, mimeType }: InputImage, transform: OutpaintTransform) {
+  // Loaded from the bytes rather than the URL so remote images don't taint the canvas
+  const image = await loadImage(`data:${mimeType};base64,${imageBytes}`);
+  const { naturalWidth: width, naturalHeight: height } = image;
+
+  let canvasWidth = width;
+  let canvasHeight = height;
+  let x = 0;
+  let y = 0;
+
+  if (transform.type === "zoom-out") {
+    canvasWidth = Math.round(width * transform.factor);
+    canvasHeight = Math.round(height * transform.factor);
+    x = Math.round((canvasWidth - width) / 2);
+    y = Math.round((canvasHeight - height) / 2);
+  } else if (transform.direction === "left" || transform.direction === "right") {
+    canvasWidth = Math.round(width * (1 + PAN_EXTENSION));
+    x = transform.direction === "left" ? canvasWidth - width : 0;
+  } else {
+    canvasHeight = Math.round(height * (1 + PAN_EXTENSION));
+    y = transform.direction === "up" ? canvasHeight - height : 0;
+  }
+
+  const padded = createCanvas(canvasWidth, canvasHeight, PADDING_COLOR);
+  padded.context.drawImage(image, x, y);
+
+  // Keep the original, less an overlap on each edge that borders new area
+  const mask = createCanvas(canvasWidth, canvasHeight, "#fff");
+  const left = x > 0 ? x + MASK_OVERLAP : x;
+  const top = y > 0 ? y + MASK_OVERLAP : y;
+  const right = x + width < canvasWidth ? x + width - MASK_OVERLAP : x + width;
+  const bottom = y + height < canvasHeight ? y + height - MASK_OVERLAP : y + height;
+  mask.context.fillStyle = "#000";
+  mask.context.fillRect(left, top, right - left, bottom - top);
+
+  return { imageBytes: toBase64(padded.canvas), maskBytes: toBase64(mask.canvas) };
+}
@@ -0,0 +1,101 @@
+import { validateImageParameters, type ImageParameterSupport } from "@/lib/providers/capabilities";
+import type { ImageParameters } from "@/lib/providers/types";
+
+// MidJourney-style parameters typed after the prompt, e.g. "a fox --ar 16:9 --seed 42 --no text"
+
+export interface ParsedPrompt {
+  prompt: string;
+  parameters: ImageParameters;
+  // Which flag set each parameter, for pointing validation messages at what the user typed
+  flags: Partial<Record<keyof ImageParameters, string>>;
+  errors: string[];
+}
+
+const FLAG_PARAMETERS: Record<string, keyof ImageParameters> = {
+  ar: "aspectRatio",
+  aspect: "aspectRatio",
+  seed: "seed",
+  no: "negativePrompt",
+  n: "numImages",
+  guidance: "guidanceScale",
+};
+
+// Flags start at the first " --name" and run to the end of the prompt
+const FIRST_FLAG_PATTERN = /(^|\s)--[a-z]/i;
+
+export function parsePromptFlags(text: string): ParsedPrompt {
+  const flagStart = text.search(FIRST_FLAG_PATTERN);
+  if (flagStart === -1) {
+    return { prompt: text.trim(), parameters: {}, flags: {}, errors: [] };
+  }
+
+  const parameters: ImageParameters = {};
+  const flags: ParsedPrompt["flags"] = {};
+  const errors: string[] = [];
+  const exclusions: string[] = [];
+
+  for (const chunk of text.slice(flagStart).trim().split(/\s+(?=--)/)) {
+    const match = chunk.match(/^--([a-z]+)\s*([\s\S]*)$/i);
+    const name = match?.[1].toLowerCase() ?? chunk;
+    const value = match?.[2].trim() ?? "";
+    const parameter = FLAG_PARAMETERS[name];
+
+    if (!parameter) {
+      errors.push(`Unknown flag ${chunk.split(/\s/)[0]}`);
+      continue;
+    }
+    if (!value) {
+      errors.push(`--${name} needs a value`);
+      continue;
+    }
+
+    flags[parameter] = `--${name}`;
+    switch (parameter) {
+      case "aspectRatio":
+        if (/^\d+:\d+$/.test(value)) parameters.aspectRatio = value;
+        else errors.push(`--${name} expects a ratio like 16:9`);
+        break;
+      case "seed":
+      case "numImages":
+        if (/^\d+$/.test(value)) parameters[parameter] = Number(value);
+        else errors.push(`--${name} expects a whole number`);
+        break;
+      case "guidanceScale":
+        if (/^\d+(\.\d+)?$/.test(value)) parameters.guidanceScale = Number(value);
+        else errors.push(`--${name} expects a number`);
+        break;
+      case "negativePrompt":
+        // Repeated --no flags add up, as they do in MidJourney
+        exclusions.push(value);
+        break;
+    }
+  }
+
+  if (exclusions.length > 0) {
+    parameters.negativePrompt = exclusions.join(", ");
+  }
+
+  return { prompt: text.slice(0, flagStart).trim(), parameters, flags, errors };
+}
+
+/**
+ * Checks each parsed parameter against what the selected model supports, so
+ * every unsupported flag gets its own message instead of only the first.
+ */
+export function checkPromptFlags({ parameters, flags }: ParsedPrompt, support: ImageParameterSupport): string[] {
+  return (Object.keys(parameters) as Array<keyof ImageParameters>).flatMap((parameter) => {
+    const error = validateImageParameters({ [parameter]: parameters[parameter] }, support);
+    return error ? [`${flags[parameter]}: ${error}`] : [];
+  });
+}
+
+// The reverse of parsePromptFlags, for showing a generation's parameters the way they're typed
+export function formatPromptFlags(parameters: ImageParameters): string[] {
+  return [
+    parameters.aspectRatio && `--ar ${parameters.aspectRatio}`,
+    parameters.seed !== undefined && `--seed ${parameters.seed}`,
+    parameters.numImages !== undefined && `--n ${parameters.numImages}`,
+    parameters.guidanceScale !== undefined && `--guidance ${parameters.guidanceScale}`,
+    parameters.negativePrompt && `--no ${parameters.negativePrompt}`,
+  ].filter((flag): flag is string => Boolean(flag));
+}
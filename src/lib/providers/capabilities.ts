@@ -0,0 +1,132 @@
+import type { ImageParameters, ProviderId, UpscaleFactor } from "@/lib/providers/types";
+
+// Kept free of SDK imports so the client can use it to build the parameters panel
+
+export interface ImageParameterSupport {
+  maxImages: number;
+  // Empty when the model picks its own shape
+  aspectRatios: string[];
+  seed: boolean;
+  guidanceScale: { min: number; max: number; default: number } | null;
+  negativePrompt: boolean;
+}
+
+export const ASPECT_RATIOS = ["1:1", "4:3", "3:4", "16:9", "9:16"];
+
+export const MAX_SEED = 2 ** 31 - 1;
+
+export const UPSCALE_FACTORS: UpscaleFactor[] = [2, 4];
+
+// Formats every provider reads as an input image
+export const INPUT_IMAGE_TYPES = ["image/png", "image/jpeg", "image/webp"];
+
+// Longest side, in pixels, that uploads are scaled down to before they are sent
+export const MAX_INPUT_IMAGE_SIZE: Record<ProviderId, number> = {
+  google: 3072,
+  fal: 2048,
+  mock: 1024,
+};
+
+// Gemini has no dedicated fields for shape or exclusions, so both are phrased into the prompt
+const GEMINI_SUPPORT: ImageParameterSupport = {
+  maxImages: 4,
+  aspectRatios: ASPECT_RATIOS,
+  seed: true,
+  guidanceScale: null,
+  negativePrompt: true,
+};
+
+const FLUX_SUPPORT: ImageParameterSupport = {
+  maxImages: 4,
+  aspectRatios: ASPECT_RATIOS,
+  seed: true,
+  guidanceScale: { min: 1, max: 20, default: 3.5 },
+  negativePrompt: false,
+};
+
+// Schnell is distilled to a few steps and ignores guidance
+const FLUX_SCHNELL_SUPPORT: ImageParameterSupport = {
+  ...FLUX_SUPPORT,
+  guidanceScale: null,
+};
+
+// Fill edits the input image in place, so its shape is fixed
+const FLUX_FILL_SUPPORT: ImageParameterSupport = {
+  ...FLUX_SUPPORT,
+  aspectRatios: [],
+  guidanceScale: null,
+};
+
+const MOCK_SUPPORT: ImageParameterSupport = {
+  maxImages: 4,
+  aspectRatios: ASPECT_RATIOS,
+  seed: true,
+  guidanceScale: { min: 1, max: 20, default: 3.5 },
+  negativePrompt: true,
+};
+
+export function getImageParameterSupport(provider: ProviderId, model?: string): ImageParameterSupport {
+  switch (provider) {
+    case "google":
+      return GEMINI_SUPPORT;
+    case "fal":
+      if (model?.includes("/fill")) return FLUX_FILL_SUPPORT;
+      return model?.includes("schnell") ? FLUX_SCHNELL_SUPPORT : FLUX_SUPPORT;
+    case "mock":
+      return MOCK_SUPPORT;
+  }
+}
+
+/**
+ * Returns a message describing the first parameter the model can't accept, or
+ * null when they're all valid.
+ */
+export function validateImageParameters(parameters: ImageParameters, support: ImageParameterSupport): string | null {
+  const { numImages, aspectRatio, seed, guidanceScale, negativePrompt } = parameters;
+
+  if (numImages !== undefined && (!Number.isInteger(numImages) || numImages < 1 || numImages > support.maxImages)) {
+    return `numImages must be a whole number between 1 and ${support.maxImages}`;
+  }
+  if (aspectRatio !== undefined && !support.aspectRatios.includes(aspectRatio)) {
+    return support.aspectRatios.length > 0
+      ? `aspectRatio must be one of ${support.aspectRatios.join(", ")}`
+      : "This model does not support choosing an aspect ratio";
+  }
+  if (seed !== undefined) {
+    if (!support.seed) return "This model does not support seeds";
+    if (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) {
+      return `seed must be a whole number between 0 and ${MAX_SEED}`;
+    }
+  }
+  if (guidanceScale !== undefined) {
+    if (!support.guidanceScale) return "This model does not support guidance scale";
+    const { min, max } = support.guidanceScale;
+    if (typeof guidanceScale !== "number" || guidanceScale < min || guidanceScale > max) {
+      return `guidanceScale must be between ${min} and ${max}`;
+    }
+  }
+  if (negativePrompt !== undefined && negativePrompt !== "" && !support.negativePrompt) {
+    return "This model does not support negative prompts";
+  }
+  return null;
+}
+
+// Drops whatever the selected model can't use, so switching providers never produces an invalid request
+export function applyImageParameterSupport(parameters: ImageParameters, support: ImageParameterSupport): ImageParameters {
+  return {
+    numImages: parameters.numImages !== undefined ? Math.min(parameters.numImages, support.maxImages) : undefined,
+    aspectRatio: parameters.aspectRatio && support.aspectRatios.includes(parameters.aspectRatio)
+      ? parameters.aspectRatio
+      : undefined,
+    seed: support.seed ? parameters.seed : undefined,
+    guidanceScale: support.guidanceScale && parameters.guidanceScale !== undefined
+      ? Math.min(Math.max(parameters.guidanceScale, support.guidanceScale.min), support.guidanceScale.max)
+      : undefined,
+    negativePrompt: support.negativePrompt && parameters.negativePrompt ? parameters.negativePrompt : undefined,
+  };
+}
+
+// Used when the caller doesn't pick a seed, so the one reported back reproduces the result
+export function createRandomSeed() {
+  return Math.floor(Math.random() * MAX_SEED);
+}
@@ -0,0 +1,299 @@
+import { ApiError, createFalClient, ValidationError, type QueueStatus } from "@fal-ai/client";
+import { getImageParameterSupport } from "@/lib/providers/capabilities";
+import { referenceInstruction } from "@/lib/providers/references";
+import { withRetry } from "@/lib/providers/retry";
+import { variationPrompt } from "@/lib/providers/variations";
+import {
+  listModels,
+  ProviderError,
+  type FailedImageSlot,
+  type ImageGenerationRequest,
+  type ImageProvider,
+  type ImageUpscaleRequest,
+  type ProgressListener,
+  type UpscaleProvider,
+} from "@/lib/providers/types";
+
+// FLUX text-to-image endpoints take a named size instead of a ratio
+const IMAGE_SIZES: Record<string, string> = {
+  "1:1": "square_hd",
+  "4:3": "landscape_4_3",
+  "3:4": "portrait_4_3",
+  "16:9": "landscape_16_9",
+  "9:16": "portrait_16_9",
+};
+
+const FAL_REST_URL = "https://rest.alpha.fal.ai";
+
+const FLUX_MODELS = ["fal-ai/flux/schnell", "fal-ai/flux/dev", "fal-ai/flux-pro", "fal-ai/flux-pro/kontext"];
+
+interface FalImageOutput {
+  images?: Array<{ url: string }>;
+  seed?: number;
+  // Per image; flagged images are returned blacked out
+  has_nsfw_concepts?: boolean[];
+}
+
+interface FalUpscaleOutput {
+  image?: { url: string; width?: number; height?: number };
+}
+
+function toProviderError(error: unknown): ProviderError {
+  if (error instanceof ProviderError) return error;
+  if (!(error instanceof ApiError)) {
+    const message = error instanceof Error ? error.message : String(error);
+    return /abort|timed? ?out|ETIMEDOUT/i.test(message)
+      ? new ProviderError(`FAL.ai did not respond in time: ${message}`, 504, "timeout")
+      : new ProviderError(`Could not reach FAL.ai: ${message}`, 503, "provider_unavailable");
+  }
+
+  const detail = typeof error.body?.detail === "string" ? error.body.detail : "";
+  const message = detail || error.message;
+  if (error instanceof ValidationError) {
+    // Moderated prompts and images come back as 422s alongside ordinary validation errors
+    const violation = error.fieldErrors.find((fieldError) => fieldError.type.includes("content_policy"));
+    return violation
+      ? new ProviderError(violation.msg, 422, "safety_blocked")
+      : new ProviderError(error.fieldErrors.map((fieldError) => fieldError.msg).join("; ") || message, 400);
+  }
+  // An account that ran out of credit is locked with a 403, the same status as a bad key
+  if (error.status === 403 && /balance|locked/i.test(message)) {
+    return new ProviderError(message, 402, "quota_exceeded");
+  }
+  return new ProviderError(message, error.status);
+}
+
+export const falProvider: ImageProvider & UpscaleProvider = {
+  id: "fal",
+  label: "FAL.ai (FLUX)",
+  envKey: "FAL_KEY",
+  defaultModels: {
+    "text-to-image": "fal-ai/flux/dev",
+    "image-to-image": "fal-ai/flux-pro/kontext",
+    "inpaint": "fal-ai/flux-pro/v1/fill",
+  },
+  // The settings menu offers the same list for every image request; models without
+  // image input fall back to text-only generation in image-to-image mode
+  models: {
+    "text-to-image": FLUX_MODELS,
+    "image-to-image": FLUX_MODELS,
+    "inpaint": ["fal-ai/flux-pro/v1/fill"],
+  },
+  // FLUX is billed by output size, so most prices are per megapixel; a square_hd image is about one
+  modelInfo: {
+    "fal-ai/flux/schnell": {
+      label: "FLUX Schnell",
+      description: "Fastest, in a few steps",
+      price: { usd: 0.003, per: "megapixel" },
+      ignoresInputImage: true,
+    },
+    "fal-ai/flux/dev": {
+      label: "FLUX Dev",
+      description: "Balances speed and quality",
+      price: { usd: 0.025, per: "megapixel" },
+      ignoresInputImage: true,
+    },
+    "fal-ai/flux-pro": {
+      label: "FLUX Pro",
+      description: "Highest quality",
+      price: { usd: 0.05, per: "megapixel" },
+      ignoresInputImage: true,
+    },
+    "fal-ai/flux-pro/kontext": {
+      label: "FLUX Kontext",
+      description: "Edits images and follows references",
+      price: { usd: 0.04, per: "image" },
+    },
+    "fal-ai/flux-pro/v1/fill": {
+      label: "FLUX Fill",
+      description: "Repaints the masked part of an image",
+      price: { usd: 0.05, per: "megapixel" },
+    },
+    "fal-ai/esrgan": {
+      label: "ESRGAN",
+      description: "Enlarges an image 2x or 4x",
+    },
+  },
+  retryPolicy: { maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 15000 },
+  maxConcurrentRequests: 8,
+
+  // FAL has no model listing, so this asks for a short-lived realtime token, which is
+  // free but needs a valid key; every FLUX endpoint is open to any account
+  async verifyApiKey(apiKey: string) {
+    const response = await fetch(`${FAL_REST_URL}/tokens/`, {
+      method: "POST",
+      headers: { Authorization: `Key ${apiKey}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ allowed_apps: ["flux"], token_expiration: 60 }),
+    }).catch((error) => {
+      throw toProviderError(error);
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw toProviderError(new ApiError({ message: response.statusText, status: response.status, body }));
+    }
+    return { models: listModels(falProvider) };
+  },
+
+  async generateImages(
+    {
+      prompt,
+      model,
+      imageBytes,
+      imageMimeType = "image/png",
+      maskBytes,
+      referenceImages = [],
+      numImages = 4,
+      guidanceScale,
+      aspectRatio = "1:1",
+      seed,
+      variation,
+      signal
+    }: ImageGenerationRequest,
+    apiKey: string,
+    onProgress?: ProgressListener
+  ) {
+    const isKontext = model.includes('kontext');
+    const isFill = model.includes('/fill');
+    const guidance = getImageParameterSupport("fal", model).guidanceScale;
+    // Kontext takes several images through its /multi endpoint, with their roles spelled out in the prompt
+    const kontextImages = isKontext
+      ? [
+          ...(imageBytes ? [`data:${imageMimeType};base64,${imageBytes}`] : []),
+          ...referenceImages.map((reference) => `data:${reference.mimeType};base64,${reference.imageBytes}`),
+        ]
+      : [];
+    const referencePrompt = referenceImages
+      .map((reference, index) => referenceInstruction(reference, (imageBytes ? 2 : 1) + index))
+      .join(" ");
+    const endpoint = kontextImages.length > 1 ? `${model}/multi` : model;
+    const input: Record<string, unknown> = {
+      prompt: [
+        variation && isKontext ? variationPrompt(prompt, variation) : prompt,
+        isKontext && referencePrompt,
+      ].filter(Boolean).join(" "),
+      num_images: numImages,
+      output_format: "jpeg",
+      safety_tolerance: "2"
+    };
+
+    // FLUX Fill keeps the size of the image it is filling
+    if (isKontext) {
+      input.aspect_ratio = aspectRatio;
+    } else if (!isFill) {
+      input.image_size = IMAGE_SIZES[aspectRatio] || "square_hd";
+    }
+    if (guidance) {
+      input.guidance_scale = guidanceScale ?? guidance.default;
+    }
+    if (seed !== undefined) {
+      input.seed = seed;
+    }
+
+    // Only FLUX Kontext and FLUX Fill accept an input image
+    if (isFill) {
+      if (!imageBytes || !maskBytes) {
+        throw new ProviderError("FLUX Fill needs both an image and a mask", 400);
+      }
+      input.image_url = `data:${imageMimeType};base64,${imageBytes}`;
+      input.mask_url = `data:image/png;base64,${maskBytes}`;
+      console.log('🖌️ Using inpainting with FLUX Fill');
+    } else if (kontextImages.length > 1) {
+      input.image_urls = kontextImages;
+      console.log(`🖼️ Using FLUX Kontext with ${kontextImages.length} images`);
+    } else if (kontextImages.length === 1) {
+      input.image_url = kontextImages[0];
+      console.log('🖼️ Using image-to-image with FLUX Kontext');
+    } else if (imageBytes || referenceImages.length > 0) {
+      console.log('⚠️ Input images provided but model does not support image-to-image, using text-only generation');
+    }
+
+    console.log('🚀 Sending request to FAL.ai with:', {
+      endpoint,
+      inputKeys: Object.keys(input),
+      promptLength: prompt.length
+    });
+
+    // A client per request keeps user-supplied keys from leaking between requests
+    const fal = createFalClient({ credentials: apiKey });
+    let retries = 0;
+    const result = await withRetry(falProvider, () => fal.subscribe(endpoint, {
+      input,
+      logs: true,
+      abortSignal: signal,
+      onQueueUpdate: (update: QueueStatus) => {
+        if (update.status === "IN_QUEUE") {
+          onProgress?.({ type: "queued", position: update.queue_position });
+        } else if (update.status === "IN_PROGRESS") {
+          console.log('📊 FAL.ai generation progress:', update.logs?.map((log) => log.message).join(', '));
+          const latestLog = update.logs?.at(-1);
+          if (latestLog) {
+            onProgress?.({ type: "log", message: latestLog.message });
+          }
+        }
+      },
+    }).catch((error) => {
+      // Abandoned on purpose, so not a timeout to retry
+      signal?.throwIfAborted();
+      throw toProviderError(error);
+    }), ({ delayMs }) => {
+      retries++;
+      onProgress?.({ type: "log", message: `FAL.ai request failed, retrying in ${Math.ceil(delayMs / 1000)}s` });
+    });
+    const data = result.data as FalImageOutput;
+
+    console.log('✅ FAL.ai generation completed:', {
+      imagesCount: data.images?.length || 0,
+      seed: data.seed
+    });
+
+    const failedSlots: FailedImageSlot[] = [];
+    // FAL.ai returns direct image URLs rather than bytes
+    const images = (data.images || []).flatMap((img, index) => {
+      if (data.has_nsfw_concepts?.[index]) {
+        failedSlots.push({ index, code: "safety_blocked", message: "FAL.ai's safety checker blocked this image" });
+        return [];
+      }
+      return [{
+        id: `${Date.now()}-${index}`,
+        url: img.url,
+        imageBytes: null
+      }];
+    });
+
+    if (images.length === 0 && failedSlots.length > 0) {
+      throw new ProviderError("FAL.ai's safety checker blocked every image", 422, "safety_blocked");
+    }
+
+    return { images, seed: data.seed, failedSlots, retries };
+  },
+
+  defaultUpscaleModel: "fal-ai/esrgan",
+
+  async upscaleImage(
+    { imageBytes, imageMimeType = "image/png", model, factor }: ImageUpscaleRequest,
+    apiKey: string
+  ) {
+    const fal = createFalClient({ credentials: apiKey });
+    const result = await withRetry(falProvider, () => fal.subscribe(model, {
+      input: {
+        image_url: `data:${imageMimeType};base64,${imageBytes}`,
+        scale: factor
+      },
+    }).catch((error) => {
+      throw toProviderError(error);
+    }));
+    const { image } = result.data as FalUpscaleOutput;
+
+    if (!image?.url) {
+      throw new ProviderError("FAL.ai did not return an upscaled image", 502);
+    }
+
+    return {
+      id: `${Date.now()}-upscaled`,
+      url: image.url,
+      imageBytes: null,
+      width: image.width,
+      height: image.height
+    };
+  },
+};
@@ -0,0 +1,392 @@
+import { ApiError, FinishReason, GoogleGenAI, type GenerateContentResponse, type Part } from "@google/genai";
+import { readImageSize } from "@/lib/media/image-size";
+import { createRandomSeed, MAX_SEED } from "@/lib/providers/capabilities";
+import { referenceInstruction } from "@/lib/providers/references";
+import { withRetry } from "@/lib/providers/retry";
+import { variationPrompt } from "@/lib/providers/variations";
+import {
+  listModels,
+  ProviderError,
+  type FailedImageSlot,
+  type GeneratedImage,
+  type ImageGenerationRequest,
+  type ImageProvider,
+  type ImageUpscaleRequest,
+  type ProgressListener,
+  type UpscaleProvider,
+  type VideoGenerationRequest,
+  type VideoProvider,
+} from "@/lib/providers/types";
+
+const DEFAULT_NUM_IMAGES = 4;
+
+// Finish reasons that mean Gemini withheld the image rather than failing to make one
+const SAFETY_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+];
+
+interface GoogleErrorDetail {
+  "@type"?: string;
+  // Set on RetryInfo details, e.g. "37s"
+  retryDelay?: string;
+}
+
+// The SDK's ApiError message is the JSON error body: its inner message is the readable
+// part, and rate limit errors say how long to back off in a RetryInfo detail
+function readApiErrorBody(error: ApiError) {
+  try {
+    const body = JSON.parse(error.message.slice(error.message.indexOf("{")));
+    const details: GoogleErrorDetail[] = body.error?.details || [];
+    const retryDelay = details.find((detail) => detail["@type"]?.endsWith("RetryInfo"))?.retryDelay;
+    return {
+      message: String(body.error?.message || error.message),
+      retryAfterMs: retryDelay ? Math.ceil(parseFloat(retryDelay) * 1000) : undefined
+    };
+  } catch {
+    return { message: error.message };
+  }
+}
+
+function toProviderError(error: unknown): ProviderError {
+  if (error instanceof ProviderError) return error;
+  if (!(error instanceof ApiError)) {
+    // No HTTP status: the request never got an answer
+    const message = error instanceof Error ? error.message : String(error);
+    return /abort|timed? ?out|ETIMEDOUT/i.test(message)
+      ? new ProviderError(`Google AI did not respond in time: ${message}`, 504, "timeout")
+      : new ProviderError(`Could not reach Google AI: ${message}`, 503, "provider_unavailable");
+  }
+
+  const { message, retryAfterMs } = readApiErrorBody(error);
+  // Gemini answers a bad key with a plain 400 INVALID_ARGUMENT
+  if (/API key not valid|API_KEY_INVALID/i.test(error.message)) {
+    return new ProviderError(message, 401, "auth_invalid");
+  }
+  if (/DEADLINE_EXCEEDED/.test(error.message)) {
+    return new ProviderError(message, 504, "timeout");
+  }
+  return new ProviderError(message, error.status, undefined, retryAfterMs);
+}
+
+interface SlotFailure {
+  error: ProviderError;
+  slot: FailedImageSlot;
+}
+
+// A response without an image was either blocked, or the model answered in text instead
+function describeMissingImage(response: GenerateContentResponse, index: number): SlotFailure {
+  const candidate = response.candidates?.[0];
+  const finishReason = response.promptFeedback?.blockReason || candidate?.finishReason;
+  const blocked = !!response.promptFeedback?.blockReason || SAFETY_FINISH_REASONS.includes(finishReason ?? "");
+  const text = candidate?.content?.parts?.map((part) => part.text ?? "").join("").trim() || undefined;
+  const error = blocked
+    ? new ProviderError(`Gemini blocked this image for safety reasons (${finishReason})`, 422, "safety_blocked")
+    : new ProviderError("Gemini answered without an image", 502);
+  const safetyRatings = candidate?.safetyRatings ?? response.promptFeedback?.safetyRatings;
+
+  return {
+    error,
+    slot: {
+      index,
+      code: error.code,
+      message: error.message,
+      finishReason,
+      safetyRatings: safetyRatings?.map(({ category, probability, blocked }) => ({
+        category: String(category),
+        probability: String(probability),
+        blocked
+      })),
+      text
+    }
+  };
+}
+
+export const googleProvider: ImageProvider & VideoProvider & UpscaleProvider = {
+  id: "google",
+  label: "Google AI (Gemini)",
+  envKey: "GOOGLE_AI_API_KEY",
+  defaultModels: {
+    "text-to-image": "gemini-2.5-flash-image-preview",
+    "image-to-image": "gemini-2.5-flash-image-preview",
+    "inpaint": "gemini-2.5-flash-image-preview",
+    "text-to-video": "veo-3.0-generate-preview",
+    "image-to-video": "veo-2.0-generate-001",
+  },
+  models: {
+    "text-to-image": ["gemini-2.5-flash-image-preview"],
+    "image-to-image": ["gemini-2.5-flash-image-preview"],
+    "inpaint": ["gemini-2.5-flash-image-preview"],
+    "text-to-video": ["veo-3.0-generate-preview", "veo-2.0-generate-001"],
+    "image-to-video": ["veo-2.0-generate-001"],
+  },
+  modelInfo: {
+    "gemini-2.5-flash-image-preview": {
+      label: "Gemini 2.5 Flash Image",
+      description: "Generates and edits images, following references and masks",
+      price: { usd: 0.039, per: "image" },
+    },
+    "veo-3.0-generate-preview": {
+      label: "Veo 3",
+      description: "Eight-second clips with sound, from a prompt",
+      price: { usd: 0.75, per: "second" },
+    },
+    "veo-2.0-generate-001": {
+      label: "Veo 2",
+      description: "Silent clips from a prompt or a first frame",
+      price: { usd: 0.35, per: "second" },
+    },
+    // Vertex AI bills upscaling separately from the Gemini API
+    "imagen-3.0-generate-002": {
+      label: "Imagen 3 upscaler",
+      description: "Enlarges an image 2x or 4x",
+    },
+  },
+  // Free-tier rate limits reset within a minute, and Gemini says when in its 429s
+  retryPolicy: { maxRetries: 2, baseDelayMs: 2000, maxDelayMs: 60000 },
+  maxConcurrentRequests: 8,
+
+  // Listing models is free and needs a valid key; it also shows which previews the key can reach
+  async verifyApiKey(apiKey: string) {
+    const ai = new GoogleGenAI({ apiKey });
+    const available = new Set<string>();
+    try {
+      for await (const model of await ai.models.list({ config: { pageSize: 1000 } })) {
+        if (model.name) available.add(model.name.replace(/^models\//, ""));
+      }
+    } catch (error) {
+      throw toProviderError(error);
+    }
+    return { models: listModels(googleProvider).filter((model) => available.has(model)) };
+  },
+
+  // Gemini returns a single image per call, so each image in a set is its own request
+  countCalls: ({ numImages = DEFAULT_NUM_IMAGES }) => numImages,
+
+  async generateImages(
+    {
+      prompt,
+      model,
+      imageBytes,
+      imageMimeType = "image/png",
+      maskBytes,
+      referenceImages = [],
+      numImages = DEFAULT_NUM_IMAGES,
+      aspectRatio,
+      seed = createRandomSeed(),
+      negativePrompt,
+      variation,
+      signal
+    }: ImageGenerationRequest,
+    apiKey: string,
+    onProgress?: ProgressListener
+  ) {
+    const ai = new GoogleGenAI({ apiKey });
+    const fullPrompt = [
+      variation ? variationPrompt(prompt, variation) : prompt,
+      aspectRatio && `Use a ${aspectRatio} aspect ratio.`,
+      negativePrompt && `Avoid: ${negativePrompt}.`,
+      // Gemini has no mask input, so the mask goes in as a second image with instructions
+      maskBytes && "The second image is a mask: only change the area that is white in the mask and keep everything in the black area exactly as it is.",
+    ].filter(Boolean).join(" ");
+
+    const failures: SlotFailure[] = [];
+    let retries = 0;
+    // Gemini returns a single image per call, so fan out one request per image
+    const imagePromises = Array.from({ length: numImages }, async (_, index): Promise<GeneratedImage | null> => {
+      try {
+        const contentParts: Part[] = [{ text: fullPrompt }];
+        if (imageBytes) {
+          contentParts.push({
+            inlineData: {
+              mimeType: imageMimeType,
+              data: imageBytes
+            }
+          });
+        }
+        if (maskBytes) {
+          contentParts.push({
+            inlineData: {
+              mimeType: "image/png",
+              data: maskBytes
+            }
+          });
+        }
+        // Each reference follows a note on how to use it
+        const imagesBefore = contentParts.length - 1;
+        referenceImages.forEach((reference, referenceIndex) => {
+          contentParts.push(
+            { text: referenceInstruction(reference, imagesBefore + referenceIndex + 1) },
+            { inlineData: { mimeType: reference.mimeType, data: reference.imageBytes } }
+          );
+        });
+
+        console.log(`🚀 Sending request ${index + 1} to Gemini with ${contentParts.length} parts`);
+
+        // Offset the seed per slot so the images differ but the whole set is reproducible
+        const response = await withRetry(
+          googleProvider,
+          () => ai.models.generateContent({
+            model,
+            contents: [{ parts: contentParts }],
+            config: { seed: (seed + index) % MAX_SEED, abortSignal: signal },
+          }).catch((error) => {
+            // Abandoned on purpose, so not a timeout to retry
+            signal?.throwIfAborted();
+            throw toProviderError(error);
+          }),
+          ({ delayMs }) => {
+            retries++;
+            onProgress?.({ type: "log", message: `Image ${index + 1}: retrying in ${Math.ceil(delayMs / 1000)}s` });
+          }
+        );
+
+        // Extract image data from the response
+        for (const candidate of response.candidates || []) {
+          for (const part of candidate.content?.parts || []) {
+            if (part.inlineData?.data) {
+              const mimeType = part.inlineData.mimeType || 'image/png';
+              const image = {
+                id: `${Date.now()}-${index}`,
+                url: `data:${mimeType};base64,${part.inlineData.data}`,
+                imageBytes: part.inlineData.data
+              };
+              onProgress?.({ type: "image", index, image });
+              return image;
+            }
+          }
+        }
+
+        const failure = describeMissingImage(response, index);
+        console.warn(`⚠️  No image for request ${index + 1}:`, failure.slot);
+        failures.push(failure);
+        return null;
+      } catch (error) {
+        console.warn(`⚠️  Failed to generate image ${index + 1}:`, error);
+        const providerError = toProviderError(error);
+        failures.push({
+          error: providerError,
+          slot: { index, code: providerError.code, message: providerError.message }
+        });
+        return null;
+      }
+    });
+
+    const generatedImages = await Promise.all(imagePromises);
+    // A partial set is still worth showing; only fail when every slot did
+    if (failures.length === numImages) {
+      throw failures[0].error;
+    }
+    return {
+      images: generatedImages.filter((image): image is GeneratedImage => image !== null),
+      seed,
+      failedSlots: failures.map(({ slot }) => slot).sort((a, b) => a.index - b.index),
+      retries
+    };
+  },
+
+  defaultUpscaleModel: "imagen-3.0-generate-002",
+  // Imagen upscaling is only served by Vertex AI, whose express mode rejects AI Studio keys
+  upscaleEnvKey: "GOOGLE_VERTEX_API_KEY",
+
+  async upscaleImage(
+    { imageBytes, imageMimeType = "image/png", model, factor }: ImageUpscaleRequest,
+    apiKey: string
+  ) {
+    const ai = new GoogleGenAI({ vertexai: true, apiKey });
+    const response = await withRetry(googleProvider, () => ai.models.upscaleImage({
+      model,
+      image: { imageBytes, mimeType: imageMimeType },
+      upscaleFactor: `x${factor}`,
+      config: { outputMimeType: "image/png", includeRaiReason: true },
+    }).catch((error) => {
+      throw toProviderError(error);
+    }));
+
+    const generatedImage = response.generatedImages?.[0];
+    const data = generatedImage?.image?.imageBytes;
+    if (generatedImage?.raiFilteredReason) {
+      throw new ProviderError(generatedImage.raiFilteredReason, 422, "safety_blocked");
+    }
+    if (!data) {
+      throw new ProviderError("Imagen did not return an upscaled image", 502);
+    }
+
+    const size = readImageSize(Buffer.from(data, "base64"));
+    return {
+      id: `${Date.now()}-upscaled`,
+      url: `data:image/png;base64,${data}`,
+      imageBytes: data,
+      width: size?.width,
+      height: size?.height
+    };
+  },
+
+  videoPollIntervalMs: 10000,
+
+  async startVideoGeneration(
+    { prompt, model, imageBytes, imageMimeType = "image/png" }: VideoGenerationRequest,
+    apiKey: string
+  ) {
+    const ai = new GoogleGenAI({ apiKey });
+
+    const operation = await withRetry(googleProvider, () => ai.models.generateVideos({
+      model,
+      prompt,
+      ...(imageBytes
+        ? {
+            image: { imageBytes, mimeType: imageMimeType },
+            config: { aspectRatio: "16:9", numberOfVideos: 2 },
+          }
+        : {
+            config: { personGeneration: "allow_all", aspectRatio: "16:9" },
+          }),
+    }).catch((error) => {
+      throw toProviderError(error);
+    }));
+
+    if (!operation.name) {
+      throw new ProviderError("Veo did not return an operation to track", 502);
+    }
+    return operation.name;
+  },
+
+  async getVideoOperation(operationId: string, apiKey: string) {
+    const ai = new GoogleGenAI({ apiKey });
+    // A hiccup while polling shouldn't fail a job that is still running on Google's side
+    const operation = await withRetry(googleProvider, () => ai.operations.getVideosOperation({ operation: { name: operationId } }).catch((error) => {
+      throw toProviderError(error);
+    }));
+
+    if (!operation.done) {
+      return { done: false };
+    }
+    if (operation.error) {
+      throw new ProviderError(String(operation.error.message || "Video generation failed"), 502);
+    }
+
+    // Veo drops filtered videos from the response and only reports why
+    const filteredReasons = operation.response?.raiMediaFilteredReasons;
+    if (!operation.response?.generatedVideos?.length && filteredReasons?.length) {
+      throw new ProviderError(filteredReasons.join(" "), 422, "safety_blocked");
+    }
+
+    const videos = (operation.response?.generatedVideos || []).flatMap((generatedVideo, index) => {
+      const videoUri = generatedVideo.video?.uri;
+      if (!videoUri) return [];
+      // The file URI only works with the API key, so pass it as a header for the
+      // server-side download rather than appending it to the URL
+      return [{
+        id: `${Date.now()}-${index}`,
+        url: videoUri,
+        uri: videoUri,
+        requestHeaders: { "x-goog-api-key": apiKey }
+      }];
+    });
+
+    return { done: true, videos };
+  },
+};
@@ -0,0 +1,239 @@
+import { googleProvider } from "@/lib/providers/google";
+import { falProvider } from "@/lib/providers/fal";
+import { mockProvider } from "@/lib/providers/mock";
+import { getImageParameterSupport, validateImageParameters } from "@/lib/providers/capabilities";
+import { SchemaError } from "@/lib/schema";
+import type { ApiErrorBody, CatalogModel } from "@/lib/api-contracts";
+import {
+  listModels,
+  ProviderError,
+  type GenerationMode,
+  type ImageParameters,
+  type ImageProvider,
+  type ReferenceImage,
+  type UpscaleProvider,
+  type VariationStrength,
+  type VideoProvider,
+} from "@/lib/providers/types";
+
+export * from "@/lib/providers/types";
+
+// Register new adapters here; routes and the client only ever refer to providers by id
+const imageProviders: Record<string, ImageProvider> = {
+  google: googleProvider,
+  fal: falProvider,
+  mock: mockProvider,
+};
+
+const videoProviders: Record<string, VideoProvider> = {
+  google: googleProvider,
+  mock: mockProvider,
+};
+
+const upscaleProviders: Record<string, UpscaleProvider> = {
+  google: googleProvider,
+  fal: falProvider,
+  mock: mockProvider,
+};
+
+// USE_MOCK_PROVIDER=true routes every request to the offline mock, whatever the client asked for
+function isMockForced() {
+  return process.env.USE_MOCK_PROVIDER === "true";
+}
+
+// Any registered adapter, whatever it can generate; used where only its key matters
+export function getProvider(id: string): ImageProvider | VideoProvider | UpscaleProvider {
+  const provider = imageProviders[id] ?? videoProviders[id] ?? upscaleProviders[id];
+  if (!provider) {
+    throw new ProviderError(`Unknown provider: ${id}`, 400);
+  }
+  return provider;
+}
+
+export function getImageProvider(id: string = "google"): ImageProvider {
+  if (isMockForced()) return mockProvider;
+  const provider = imageProviders[id];
+  if (!provider) {
+    throw new ProviderError(`Unknown image provider: ${id}`, 400);
+  }
+  return provider;
+}
+
+export function getVideoProvider(id: string = "google"): VideoProvider {
+  if (isMockForced()) return mockProvider;
+  const provider = videoProviders[id];
+  if (!provider) {
+    throw new ProviderError(`Provider ${id} does not support video generation`, 400);
+  }
+  return provider;
+}
+
+export function getUpscaleProvider(id: string = "google"): UpscaleProvider {
+  if (isMockForced()) return mockProvider;
+  const provider = upscaleProviders[id];
+  if (!provider) {
+    throw new ProviderError(`Provider ${id} does not support upscaling`, 400);
+  }
+  return provider;
+}
+
+function describeModel(provider: ImageProvider | VideoProvider | UpscaleProvider, id: string): CatalogModel {
+  const info = provider.modelInfo[id] ?? { label: id };
+  const accepts = (mode: GenerationMode) => !!provider.models[mode]?.includes(id);
+  const generatesImages = accepts("text-to-image") || accepts("image-to-image") || accepts("inpaint");
+  const { guidanceScale, ...imageParameters } = getImageParameterSupport(provider.id, id);
+
+  return {
+    id,
+    provider: provider.id,
+    label: info.label,
+    description: info.description,
+    capabilities: {
+      textToImage: accepts("text-to-image"),
+      imageToImage: accepts("image-to-image") && !info.ignoresInputImage,
+      maskEdit: accepts("inpaint"),
+      textToVideo: accepts("text-to-video"),
+      imageToVideo: accepts("image-to-video"),
+      upscale: "defaultUpscaleModel" in provider && provider.defaultUpscaleModel === id && canUpscale(provider),
+    },
+    defaultModes: (Object.keys(provider.defaultModels) as GenerationMode[])
+      .filter((mode) => provider.defaultModels[mode] === id),
+    imageParameters: generatesImages ? { ...imageParameters, guidanceScale: guidanceScale ?? undefined } : undefined,
+    price: info.price,
+  };
+}
+
+// Every model of every registered adapter, upscalers included, whether or not this server has its key
+export function getModelCatalog(): CatalogModel[] {
+  const providers = new Set([
+    ...Object.values(imageProviders),
+    ...Object.values(videoProviders),
+    ...Object.values(upscaleProviders),
+  ]);
+  return [...providers].flatMap((provider) => {
+    const upscaleModel = "defaultUpscaleModel" in provider ? [provider.defaultUpscaleModel] : [];
+    return [...new Set([...listModels(provider), ...upscaleModel])].map((id) => describeModel(provider, id));
+  });
+}
+
+// Upscalers with a key of their own can't run until the server has it
+function canUpscale(provider: UpscaleProvider) {
+  return !provider.upscaleEnvKey || !!process.env[provider.upscaleEnvKey];
+}
+
+export function isVideoMode(mode: GenerationMode) {
+  return mode === "text-to-video" || mode === "image-to-video";
+}
+
+// Use user-provided API key if available, otherwise fallback to environment variable
+export function resolveApiKey(provider: ImageProvider | VideoProvider | UpscaleProvider, userApiKey?: string | null): string {
+  if (!provider.envKey) return "";
+  const apiKey = userApiKey || process.env[provider.envKey];
+  if (!apiKey) {
+    console.error(`❌ No ${provider.label} API key available:`, {
+      hasUserApiKey: !!userApiKey,
+      hasEnvKey: !!process.env[provider.envKey]
+    });
+    throw new ProviderError(
+      `No API key provided. Please add your ${provider.label} API key in the settings.`,
+      401,
+      "auth_missing"
+    );
+  }
+  return apiKey;
+}
+
+// Upscalers with a key of their own always use the server's, since users' keys are for envKey
+export function resolveUpscaleApiKey(provider: UpscaleProvider, userApiKey?: string | null): string {
+  if (!provider.upscaleEnvKey) return resolveApiKey(provider, userApiKey);
+  const apiKey = process.env[provider.upscaleEnvKey];
+  if (!apiKey) {
+    throw new ProviderError(
+      `${provider.label} upscaling is not set up on this server; set ${provider.upscaleEnvKey} to enable it`,
+      501,
+      "internal"
+    );
+  }
+  return apiKey;
+}
+
+export function resolveModel(
+  provider: ImageProvider | VideoProvider,
+  mode: GenerationMode,
+  requestedModel?: string
+): string {
+  // The mock renders placeholders for whatever model the client had selected
+  const model = (!isMockForced() && requestedModel) || provider.defaultModels[mode];
+  if (!model) {
+    throw new ProviderError(`${provider.label} does not support ${mode} generation`, 400);
+  }
+  if (!provider.models[mode]?.includes(model)) {
+    throw new ProviderError(`Unknown ${provider.label} model for ${mode}: ${model}`, 400);
+  }
+  return model;
+}
+
+export function resolveUpscaleModel(provider: UpscaleProvider, requestedModel?: string): string {
+  const model = (!isMockForced() && requestedModel) || provider.defaultUpscaleModel;
+  if (model !== provider.defaultUpscaleModel) {
+    throw new ProviderError(`Unknown ${provider.label} upscale model: ${model}`, 400);
+  }
+  return model;
+}
+
+// Rejects parameters the chosen model can't honour instead of silently ignoring them
+export function checkImageParameters(provider: ImageProvider, model: string, parameters: ImageParameters) {
+  const error = validateImageParameters(parameters, getImageParameterSupport(provider.id, model));
+  if (error) {
+    throw new ProviderError(error, 400);
+  }
+}
+
+// Variations are image-to-image edits of an existing tile, so they make no sense without one
+export function checkVariation(mode: GenerationMode, variation?: VariationStrength) {
+  if (variation !== undefined && mode !== "image-to-image") {
+    throw new ProviderError("Variations need a source image (image-to-image mode)", 400);
+  }
+}
+
+// References only guide image generation; Veo takes nothing but a first frame
+export function checkReferenceImages(mode: GenerationMode, referenceImages?: ReferenceImage[]) {
+  if (referenceImages?.length && isVideoMode(mode)) {
+    throw new ProviderError("Reference images are not supported for video generation", 400);
+  }
+}
+
+// Shared error response shape for every generation route
+export function providerErrorBody(
+  error: unknown,
+  fallbackMessage: string
+): { status: number; body: ApiErrorBody; headers: Record<string, string> } {
+  const err = error as Error;
+  // Invalid requests list every offending field so forms can point at them
+  if (error instanceof SchemaError) {
+    return {
+      status: 400,
+      body: {
+        success: false,
+        error: `Invalid request: ${error.message}`,
+        code: "invalid_input",
+        details: error.name,
+        fieldErrors: error.fieldErrors
+      },
+      headers: {}
+    };
+  }
+  const retryAfterMs = error instanceof ProviderError ? error.retryAfterMs : undefined;
+  return {
+    status: error instanceof ProviderError ? error.status : 500,
+    body: {
+      success: false,
+      error: err?.message || fallbackMessage,
+      // Adapters translate SDK failures into ProviderErrors, so anything else is a bug on our side
+      code: error instanceof ProviderError ? error.code : "internal",
+      details: err?.name || "Unknown error",
+      retryAfterMs
+    },
+    headers: retryAfterMs ? { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) } : {}
+  };
+}
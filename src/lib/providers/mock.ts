@@ -0,0 +1,285 @@
+import { readImageSize } from "@/lib/media/image-size";
+import { encodePng } from "@/lib/media/png";
+import { encodeVp8Keyframe, rgbToYuv } from "@/lib/media/vp8";
+import { muxWebm } from "@/lib/media/webm";
+import { withRetry } from "@/lib/providers/retry";
+import {
+  listModels,
+  ProviderError,
+  type GeneratedImage,
+  type GeneratedVideo,
+  type ImageGenerationRequest,
+  type ImageProvider,
+  type ImageUpscaleRequest,
+  type ProgressListener,
+  type UpscaleProvider,
+  type VideoGenerationRequest,
+  type VideoProvider,
+} from "@/lib/providers/types";
+
+const IMAGE_SIZE = 512;
+const VIDEO_WIDTH = 320;
+const VIDEO_HEIGHT = 180;
+const VIDEO_FPS = 12;
+const VIDEO_SECONDS = 2;
+const VIDEOS_PER_REQUEST = 2;
+
+// Small artificial delay so loading states are visible during development
+const MOCK_DELAY_MS = Number(process.env.MOCK_PROVIDER_DELAY_MS ?? 800);
+// Share of image requests that fail with a 503, to exercise retries and error states offline
+const MOCK_FAILURE_RATE = Number(process.env.MOCK_PROVIDER_FAILURE_RATE ?? 0);
+
+type Rgb = [number, number, number];
+
+// FNV-1a, so the same prompt always produces the same media
+function hashString(value: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): Rgb {
+  const a = saturation * Math.min(lightness, 1 - lightness);
+  const channel = (n: number) => {
+    const k = (n + hue * 12) % 12;
+    return Math.round(255 * (lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+function mix(a: Rgb, b: Rgb, t: number): Rgb {
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+}
+
+interface Scene {
+  from: Rgb;
+  to: Rgb;
+  angle: number;
+  blobs: Array<{ x: number; y: number; radius: number; color: Rgb; dx: number; dy: number }>;
+}
+
+function createScene(seed: number): Scene {
+  const random = createRandom(seed);
+  const hue = random();
+  return {
+    from: hslToRgb(hue, 0.6, 0.25),
+    to: hslToRgb((hue + 0.2 + random() * 0.3) % 1, 0.7, 0.6),
+    angle: random() * Math.PI * 2,
+    blobs: Array.from({ length: 3 + Math.floor(random() * 3) }, () => ({
+      x: random(),
+      y: random(),
+      radius: 0.1 + random() * 0.25,
+      color: hslToRgb(random(), 0.8, 0.55 + random() * 0.2),
+      dx: random() - 0.5,
+      dy: random() - 0.5,
+    })),
+  };
+}
+
+// Colour of the scene at normalised coordinates (x, y) and time t in [0, 1)
+function sampleScene(scene: Scene, x: number, y: number, t = 0): Rgb {
+  const along = (x - 0.5) * Math.cos(scene.angle) + (y - 0.5) * Math.sin(scene.angle) + 0.5;
+  let color = mix(scene.from, scene.to, Math.max(0, Math.min(1, along)));
+  for (const blob of scene.blobs) {
+    const cx = blob.x + Math.sin(t * Math.PI * 2) * blob.dx * 0.3;
+    const cy = blob.y + Math.cos(t * Math.PI * 2) * blob.dy * 0.3;
+    const distance = Math.hypot(x - cx, y - cy) / blob.radius;
+    if (distance < 1) {
+      color = mix(color, blob.color, (1 - distance) * 0.85);
+    }
+  }
+  return color;
+}
+
+// The longer side is always IMAGE_SIZE
+function imageDimensions(aspectRatio = "1:1") {
+  const [w, h] = aspectRatio.split(":").map(Number);
+  if (!w || !h) return { width: IMAGE_SIZE, height: IMAGE_SIZE };
+  return w >= h
+    ? { width: IMAGE_SIZE, height: Math.round(IMAGE_SIZE * h / w) }
+    : { width: Math.round(IMAGE_SIZE * w / h), height: IMAGE_SIZE };
+}
+
+// Inpainting keeps the input's shape, scaled so the longer side is IMAGE_SIZE
+function fitImageSize({ width, height }: { width: number; height: number }) {
+  const scale = IMAGE_SIZE / Math.max(width, height);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+function renderImage(seed: number, { width, height } = imageDimensions()) {
+  const scene = createScene(seed);
+  const rgb = new Uint8Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = sampleScene(scene, x / width, y / height);
+      rgb.set([r, g, b], (y * width + x) * 3);
+    }
+  }
+  return encodePng(width, height, rgb);
+}
+
+function renderVideo(seed: number) {
+  const scene = createScene(seed);
+  const columns = Math.ceil(VIDEO_WIDTH / 16);
+  const rows = Math.ceil(VIDEO_HEIGHT / 16);
+  const frameCount = VIDEO_FPS * VIDEO_SECONDS;
+
+  const frames = Array.from({ length: frameCount }, (_, frame) => {
+    const t = frame / frameCount;
+    const colors = Array.from({ length: rows }, (_, row) =>
+      Array.from({ length: columns }, (_, column) => {
+        const [r, g, b] = sampleScene(scene, (column + 0.5) * 16 / VIDEO_WIDTH, (row + 0.5) * 16 / VIDEO_HEIGHT, t);
+        return rgbToYuv(r, g, b);
+      })
+    );
+    return encodeVp8Keyframe(VIDEO_WIDTH, VIDEO_HEIGHT, colors);
+  });
+
+  return Buffer.from(muxWebm(frames, VIDEO_WIDTH, VIDEO_HEIGHT, VIDEO_FPS));
+}
+
+function delay(ms = MOCK_DELAY_MS) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function simulateOutage() {
+  if (Math.random() < MOCK_FAILURE_RATE) {
+    throw new ProviderError("Mock provider is unavailable (simulated)", 503);
+  }
+}
+
+export const mockProvider: ImageProvider & VideoProvider & UpscaleProvider = {
+  id: "mock",
+  label: "Mock (offline)",
+  defaultModels: {
+    "text-to-image": "mock-image",
+    "image-to-image": "mock-image",
+    "inpaint": "mock-image",
+    "text-to-video": "mock-video",
+    "image-to-video": "mock-video",
+  },
+  models: {
+    "text-to-image": ["mock-image"],
+    "image-to-image": ["mock-image"],
+    "inpaint": ["mock-image"],
+    "text-to-video": ["mock-video"],
+    "image-to-video": ["mock-video"],
+  },
+  modelInfo: {
+    "mock-image": { label: "Mock image", description: "Placeholder images drawn from the prompt", price: { usd: 0, per: "image" } },
+    "mock-video": { label: "Mock video", description: "Placeholder clips drawn from the prompt", price: { usd: 0, per: "second" } },
+    "mock-upscale": { label: "Mock upscaler", description: "Enlarges placeholders", price: { usd: 0, per: "image" } },
+  },
+  retryPolicy: { maxRetries: 2, baseDelayMs: 200, maxDelayMs: 2000 },
+  maxConcurrentRequests: 32,
+
+  async verifyApiKey() {
+    return { models: listModels(mockProvider) };
+  },
+
+  async generateImages(
+    {
+      prompt,
+      imageBytes,
+      maskBytes,
+      referenceImages = [],
+      numImages = 4,
+      aspectRatio,
+      seed,
+      negativePrompt,
+      variation,
+      signal
+    }: ImageGenerationRequest,
+    _apiKey: string,
+    onProgress?: ProgressListener
+  ) {
+    const baseSeed = seed ?? hashString(
+      `${prompt}|${imageBytes ?? ""}` +
+      (maskBytes ? `|mask:${maskBytes}` : "") +
+      referenceImages.map((reference) => `|${reference.role}:${reference.imageBytes}`).join("") +
+      (negativePrompt ? `|${negativePrompt}` : "") +
+      (variation ? `|${variation}` : "")
+    );
+
+    const inputSize = maskBytes && imageBytes ? readImageSize(Buffer.from(imageBytes, "base64")) : null;
+    const size = inputSize ? fitImageSize(inputSize) : imageDimensions(aspectRatio);
+
+    let retries = 0;
+    // Stagger the results so streaming clients see tiles arrive one at a time
+    const images = await Promise.all(Array.from({ length: numImages }, async (_, index): Promise<GeneratedImage> => {
+      await delay(MOCK_DELAY_MS * (index + 1) / numImages);
+      signal?.throwIfAborted();
+      await withRetry(mockProvider, async () => simulateOutage(), ({ delayMs }) => {
+        retries++;
+        onProgress?.({ type: "log", message: `Image ${index + 1}: retrying in ${Math.ceil(delayMs / 1000)}s` });
+      });
+      const imageBytes = renderImage(baseSeed + index, size).toString("base64");
+      const image = {
+        id: `mock-${baseSeed}-${index}`,
+        url: `data:image/png;base64,${imageBytes}`,
+        imageBytes
+      };
+      onProgress?.({ type: "image", index, image });
+      return image;
+    }));
+
+    return { images, seed: baseSeed, retries };
+  },
+
+  defaultUpscaleModel: "mock-upscale",
+
+  // Renders a fresh placeholder at the upscaled size rather than resampling the input
+  async upscaleImage({ imageBytes, factor }: ImageUpscaleRequest) {
+    await delay();
+    const seed = hashString(imageBytes);
+    const source = readImageSize(Buffer.from(imageBytes, "base64")) || imageDimensions();
+    const size = { width: source.width * factor, height: source.height * factor };
+    const data = renderImage(seed, size).toString("base64");
+    return {
+      id: `mock-${seed}-upscaled`,
+      url: `data:image/png;base64,${data}`,
+      imageBytes: data,
+      ...size
+    };
+  },
+
+  videoPollIntervalMs: 500,
+
+  // The operation id carries everything needed to render the result, so polling
+  // keeps working across server restarts
+  async startVideoGeneration({ prompt, imageBytes }: VideoGenerationRequest) {
+    const baseSeed = hashString(`${prompt}|${imageBytes ?? ""}`);
+    return `mock-${baseSeed}-${Date.now()}`;
+  },
+
+  async getVideoOperation(operationId: string) {
+    const [, seed, startedAt] = operationId.split("-");
+    if (Date.now() - Number(startedAt) < MOCK_DELAY_MS) {
+      return { done: false };
+    }
+
+    const baseSeed = Number(seed);
+    const videos = Array.from({ length: VIDEOS_PER_REQUEST }, (_, index): GeneratedVideo => ({
+      id: `mock-${baseSeed}-${index}`,
+      url: `data:video/webm;base64,${renderVideo(baseSeed + index).toString("base64")}`,
+      uri: `mock://videos/${baseSeed}-${index}`
+    }));
+
+    return { done: true, videos };
+  },
+};
@@ -0,0 +1,29 @@
+import type { ReferenceImage, ReferenceRole } from "@/lib/providers/types";
+
+// Kept free of SDK imports so the prompt bar can list the roles
+
+export const MAX_REFERENCE_IMAGES = 4;
+
+export const REFERENCE_ROLES: Record<ReferenceRole, { label: string; instruction: string }> = {
+  style: {
+    label: "Style",
+    instruction: "Use it as a style reference: match its colours, medium and artistic style, but not its content.",
+  },
+  character: {
+    label: "Character",
+    instruction: "Use it as a character reference: keep the same person or character, with the same face, features and outfit.",
+  },
+  composition: {
+    label: "Composition",
+    instruction: "Use it as a composition reference: follow its layout, framing and poses.",
+  },
+};
+
+export function isReferenceRole(role: unknown): role is ReferenceRole {
+  return typeof role === "string" && Object.hasOwn(REFERENCE_ROLES, role);
+}
+
+// Numbered so providers that take a flat list of images can tell which is which
+export function referenceInstruction(reference: ReferenceImage, imageNumber: number) {
+  return `Image ${imageNumber}: ${REFERENCE_ROLES[reference.role].instruction}`;
+}
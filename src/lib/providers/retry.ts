@@ -0,0 +1,61 @@
+import { ProviderError, type ProviderId, type RetryPolicy } from "@/lib/providers/types";
+
+// Rate limits, outages and timeouts tend to clear up on their own; anything else would just fail again
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+export interface RetryNotice {
+  // The attempt that just failed, starting at 1
+  attempt: number;
+  delayMs: number;
+  error: ProviderError;
+}
+
+interface RetryingProvider {
+  id: ProviderId;
+  retryPolicy: RetryPolicy;
+}
+
+// GOOGLE_MAX_RETRIES, FAL_MAX_RETRIES, ...; 0 turns retries off for that provider
+function getMaxRetries({ id, retryPolicy }: RetryingProvider) {
+  const configured = process.env[`${id.toUpperCase()}_MAX_RETRIES`];
+  const value = Number(configured);
+  return configured && Number.isInteger(value) && value >= 0 ? value : retryPolicy.maxRetries;
+}
+
+// Exponential backoff with equal jitter, so parallel requests that failed together don't retry in lockstep
+function getBackoffDelay({ baseDelayMs, maxDelayMs }: RetryPolicy, attempt: number) {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+/**
+ * Runs a provider call, retrying it on transient failures. `run` must throw
+ * ProviderErrors: adapters map their SDK errors first so the status and any
+ * retry-after hint are known. A provider asking for a longer wait than the
+ * policy's maxDelayMs gets its error passed straight through instead.
+ */
+export async function withRetry<T>(
+  provider: RetryingProvider,
+  run: () => Promise<T>,
+  onRetry?: (notice: RetryNotice) => void
+): Promise<T> {
+  const maxRetries = getMaxRetries(provider);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (!(error instanceof ProviderError) || !RETRYABLE_STATUSES.includes(error.status) || attempt > maxRetries) {
+        throw error;
+      }
+      const delayMs = error.retryAfterMs ?? getBackoffDelay(provider.retryPolicy, attempt);
+      if (delayMs > provider.retryPolicy.maxDelayMs) {
+        throw error;
+      }
+
+      console.warn(`🔁 ${provider.id} request failed (${error.message}), retry ${attempt}/${maxRetries} in ${delayMs}ms`);
+      onRetry?.({ attempt, delayMs, error });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
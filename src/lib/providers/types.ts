@@ -0,0 +1,240 @@
+export type ProviderId = "google" | "fal" | "mock";
+
+export type GenerationMode =
+  | "text-to-image"
+  | "image-to-image"
+  // Image-to-image restricted to the white area of a mask
+  | "inpaint"
+  | "text-to-video"
+  | "image-to-video";
+
+export interface GeneratedImage {
+  id: string;
+  url: string;
+  imageBytes: string | null;
+}
+
+export interface GeneratedVideo {
+  id: string;
+  url: string;
+  uri: string;
+  // Headers the server needs to download `url` (e.g. credentials). The video is
+  // copied into asset storage, so these never reach the browser.
+  requestHeaders?: Record<string, string>;
+}
+
+// User-tunable knobs; which ones a model accepts is described in capabilities.ts
+export interface ImageParameters {
+  numImages?: number;
+  aspectRatio?: string;
+  seed?: number;
+  guidanceScale?: number;
+  negativePrompt?: string;
+}
+
+// Base64 image data labelled with the format it is actually encoded in
+export interface InputImage {
+  imageBytes: string;
+  mimeType: string;
+}
+
+export type ReferenceRole = "style" | "character" | "composition";
+
+// Extra images that guide a generation without being edited themselves
+export interface ReferenceImage extends InputImage {
+  role: ReferenceRole;
+}
+
+// How far an image-to-image variation may drift from its source image
+export type VariationStrength = "subtle" | "strong";
+
+export interface ImageGenerationRequest extends ImageParameters {
+  prompt: string;
+  model: string;
+  imageBytes?: string;
+  // Format of imageBytes; PNG when omitted
+  imageMimeType?: string;
+  // PNG the same size as the input image; white marks the area to change
+  maskBytes?: string;
+  referenceImages?: ReferenceImage[];
+  variation?: VariationStrength;
+  // Aborted when nobody is waiting for the images any more
+  signal?: AbortSignal;
+}
+
+// Intermediate updates a provider reports while a request is still running
+export type GenerationProgress =
+  | { type: "queued"; position: number }
+  | { type: "log"; message: string }
+  | { type: "image"; index: number; image: GeneratedImage };
+
+export type ProgressListener = (progress: GenerationProgress) => void;
+
+export interface SafetyRating {
+  category: string;
+  probability: string;
+  blocked?: boolean;
+}
+
+// A requested image the provider didn't deliver, with whatever it said about why
+export interface FailedImageSlot {
+  index: number;
+  code: ErrorCode;
+  message: string;
+  finishReason?: string;
+  safetyRatings?: SafetyRating[];
+  // What the model answered with instead of an image, often an explanation of a refusal
+  text?: string;
+}
+
+export interface ImageGenerationResult {
+  images: GeneratedImage[];
+  seed?: number;
+  // Transient failures that were retried on the way to this result
+  retries?: number;
+  // Slots that came back empty while others succeeded; if every slot fails the provider throws instead
+  failedSlots?: FailedImageSlot[];
+}
+
+export interface RetryPolicy {
+  maxRetries: number;
+  // First backoff delay, doubled on every further attempt up to maxDelayMs
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export type UpscaleFactor = 2 | 4;
+
+export interface ImageUpscaleRequest {
+  imageBytes: string;
+  imageMimeType?: string;
+  model: string;
+  factor: UpscaleFactor;
+}
+
+// Dimensions are left out when the upscaler doesn't report them
+export interface UpscaledImage extends GeneratedImage {
+  width?: number;
+  height?: number;
+}
+
+export interface VideoGenerationRequest {
+  prompt: string;
+  model: string;
+  imageBytes?: string;
+  imageMimeType?: string;
+}
+
+export interface VideoOperationStatus {
+  done: boolean;
+  videos?: GeneratedVideo[];
+}
+
+interface BaseProvider {
+  id: ProviderId;
+  label: string;
+  // How transient failures are retried; MAX_RETRIES env vars override the count (see retry.ts)
+  retryPolicy: RetryPolicy;
+  // Requests this server sends the provider at once, video jobs included; see rate-limit/index.ts
+  maxConcurrentRequests: number;
+  // Server-side environment variable used when the client doesn't send a key.
+  // Providers without one need no credentials at all.
+  envKey?: string;
+  // Model used for each mode when the request doesn't name one
+  defaultModels: Partial<Record<GenerationMode, string>>;
+  // Every model each mode accepts, defaults included; requests naming any other are rejected
+  models: Partial<Record<GenerationMode, string[]>>;
+  // How /api/models describes each of the models above, plus the upscaler if there is one
+  modelInfo: Record<string, ModelInfo>;
+  // Makes the cheapest authenticated call the provider offers and lists which of our
+  // models the key can use. Throws a ProviderError if the key is rejected.
+  verifyApiKey(apiKey: string): Promise<KeyVerification>;
+}
+
+// A list price in USD, for one output or one unit of it; the provider's pricing page is authoritative
+export interface ModelPrice {
+  usd: number;
+  per: "image" | "megapixel" | "second";
+}
+
+export interface ModelInfo {
+  label: string;
+  description?: string;
+  price?: ModelPrice;
+  // Accepted in image-to-image mode, but generates from the prompt alone
+  ignoresInputImage?: boolean;
+}
+
+export interface KeyVerification {
+  models: string[];
+}
+
+// Every model a provider accepts in any mode, without duplicates
+export function listModels(provider: Pick<BaseProvider, "models">): string[] {
+  return [...new Set(Object.values(provider.models).flat())];
+}
+
+export interface ImageProvider extends BaseProvider {
+  // How many API calls generateImages makes for a request, each taking a concurrency slot; one when left out
+  countCalls?(request: Pick<ImageGenerationRequest, "numImages">): number;
+  generateImages(
+    request: ImageGenerationRequest,
+    apiKey: string,
+    onProgress?: ProgressListener
+  ): Promise<ImageGenerationResult>;
+}
+
+// Video generation is long-running: start it, then poll the returned operation id
+// from the job worker until it reports done.
+export interface VideoProvider extends BaseProvider {
+  videoPollIntervalMs: number;
+  startVideoGeneration(request: VideoGenerationRequest, apiKey: string): Promise<string>;
+  getVideoOperation(operationId: string, apiKey: string): Promise<VideoOperationStatus>;
+}
+
+// Upscalers are separate models from the generators, so each provider names its own
+export interface UpscaleProvider extends BaseProvider {
+  defaultUpscaleModel: string;
+  // Server-side environment variable holding the key upscaling needs when envKey's
+  // won't do; upscaling is reported as unsupported until it's set
+  upscaleEnvKey?: string;
+  upscaleImage(request: ImageUpscaleRequest, apiKey: string): Promise<UpscaledImage>;
+}
+
+// What went wrong, independent of the provider's wording, so the client can react to it
+export type ErrorCode =
+  | "auth_missing"
+  | "auth_invalid"
+  | "quota_exceeded"
+  // Turned away by this server's own rate limits, not the provider's
+  | "rate_limited"
+  // Turned off by this deployment's feature flags (see features.ts)
+  | "feature_disabled"
+  | "safety_blocked"
+  | "timeout"
+  | "provider_unavailable"
+  | "invalid_input"
+  | "internal";
+
+function codeForStatus(status: number): ErrorCode {
+  if (status === 400) return "invalid_input";
+  if (status === 401 || status === 403) return "auth_invalid";
+  if (status === 429) return "quota_exceeded";
+  if (status === 504) return "timeout";
+  return status >= 500 ? "provider_unavailable" : "internal";
+}
+
+export class ProviderError extends Error {
+  status: number;
+  code: ErrorCode;
+  // How long the provider asked us to wait before trying again, when it said
+  retryAfterMs?: number;
+
+  constructor(message: string, status = 500, code = codeForStatus(status), retryAfterMs?: number) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
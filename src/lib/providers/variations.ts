@@ -0,0 +1,15 @@
+import type { VariationStrength } from "@/lib/providers/types";
+
+// Neither Gemini nor FLUX Kontext has a strength knob for edits, so the presets are instructions
+const VARIATION_INSTRUCTIONS: Record<VariationStrength, string> = {
+  subtle:
+    "Create a subtle variation of this image. Keep the composition, subject, colour palette and style, and only change small details.",
+  strong:
+    "Create a bold variation of this image. Keep the subject and overall idea, but freely change the composition, pose, lighting and style.",
+};
+
+export const VARIATION_STRENGTHS = Object.keys(VARIATION_INSTRUCTIONS) as VariationStrength[];
+
+export function variationPrompt(prompt: string, strength: VariationStrength) {
+  return `${VARIATION_INSTRUCTIONS[strength]} The image was created from this prompt: ${prompt}`;
+}
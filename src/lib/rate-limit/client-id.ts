@@ -0,0 +1,10 @@
+// Without a trusted proxy the server can't see a caller's address, so each browser
+// gets a random id in a cookie instead (see src/middleware.ts). Kept free of Node
+// imports because the middleware runs on the edge runtime.
+
+export const CLIENT_ID_COOKIE = "openjourney-client";
+
+export const CLIENT_ID_PATTERN = /^[\w-]{16,64}$/;
+
+// A year; the id only groups requests for rate limiting, so losing it costs nothing
+export const CLIENT_ID_COOKIE_MAX_AGE_S = 365 * 24 * 60 * 60;
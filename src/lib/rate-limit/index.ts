@@ -0,0 +1,156 @@
+import { createHash } from "crypto";
+import { ProviderError, type ProviderId } from "@/lib/providers/types";
+import { CLIENT_ID_COOKIE, CLIENT_ID_PATTERN } from "@/lib/rate-limit/client-id";
+import { createMemoryRateLimitStore } from "@/lib/rate-limit/memory";
+import type { RateLimitStore, TokenBucket } from "@/lib/rate-limit/types";
+
+export * from "@/lib/rate-limit/types";
+
+// A provider at its concurrency cap frees up as soon as any request finishes, so suggest a short wait
+const BUSY_RETRY_AFTER_MS = 5000;
+
+interface LimitedProvider {
+  id: ProviderId;
+  label: string;
+  maxConcurrentRequests: number;
+}
+
+// Stored on globalThis so counts survive module reloads in `next dev`
+const globalForRateLimit = globalThis as typeof globalThis & { rateLimitStore?: RateLimitStore };
+
+export function getRateLimitStore(): RateLimitStore {
+  return globalForRateLimit.rateLimitStore ?? (globalForRateLimit.rateLimitStore = createMemoryRateLimitStore());
+}
+
+// For deployments running several instances, which need a store they all share
+export function setRateLimitStore(store: RateLimitStore) {
+  globalForRateLimit.rateLimitStore = store;
+}
+
+function readLimit(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// Generations and key checks are limited separately, so the settings checking keys
+// on every page load doesn't use up anyone's generations
+export type RateLimitScope = "generate" | "keys";
+
+const SCOPE_LIMITS: Record<RateLimitScope, { prefix: string; perMinute: number; burst: number }> = {
+  generate: { prefix: "RATE_LIMIT", perMinute: 20, burst: 10 },
+  keys: { prefix: "KEY_RATE_LIMIT", perMinute: 30, burst: 10 },
+};
+
+// RATE_LIMIT_PER_MINUTE=0 (or KEY_RATE_LIMIT_PER_MINUTE=0) turns that limit off
+function getRequestBucket(scope: RateLimitScope): TokenBucket | null {
+  const { prefix, perMinute, burst } = SCOPE_LIMITS[scope];
+  const refillPerMinute = readLimit(`${prefix}_PER_MINUTE`, perMinute);
+  return refillPerMinute > 0
+    ? { refillPerMinute, capacity: Math.max(1, readLimit(`${prefix}_BURST`, burst)) }
+    : null;
+}
+
+// TRUST_PROXY is how many reverse proxies sit in front of the server ("true" counts as one)
+function getTrustedProxyHops() {
+  const value = process.env.TRUST_PROXY?.trim().toLowerCase();
+  if (value === "true") return 1;
+  const hops = Number(value);
+  return value && Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+function readCookie(request: Request, name: string) {
+  return request.headers.get("cookie")?.split(";")
+    .map((cookie) => cookie.trim().split("="))
+    .find(([key]) => key === name)?.[1];
+}
+
+/**
+ * Who a request comes from, for rate limits: the address the trusted proxies
+ * report, or without TRUST_PROXY the browser's id cookie, since any client can
+ * send X-Forwarded-For. Each proxy appends the address it was reached from, so
+ * the client is the entry that many hops from the end. Callers with neither
+ * (scripts that drop cookies) share one "unknown" bucket.
+ */
+export function getClientId(request: Request) {
+  const hops = getTrustedProxyHops();
+  if (hops) {
+    const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    const address = forwarded.at(-hops) || forwarded[0] || request.headers.get("x-real-ip");
+    if (address) return `ip:${address}`;
+  }
+
+  const browserId = readCookie(request, CLIENT_ID_COOKIE);
+  return browserId && CLIENT_ID_PATTERN.test(browserId) ? `browser:${browserId}` : "unknown";
+}
+
+/**
+ * Charges one request to the caller (see getClientId) and, when they send their
+ * own API key, to that key as well, so spreading one key over many addresses
+ * doesn't get around the limit. Throws a 429 ProviderError once either bucket is empty.
+ */
+export async function checkRateLimit(request: Request, userApiKey?: string | null, scope: RateLimitScope = "generate") {
+  const bucket = getRequestBucket(scope);
+  if (!bucket) return;
+
+  const keys = [`${scope}:${getClientId(request)}`];
+  if (userApiKey) {
+    // Only a hash is kept, so limiter state never holds a usable key
+    keys.push(`${scope}:user:${createHash("sha256").update(userApiKey).digest("hex").slice(0, 16)}`);
+  }
+
+  // Both buckets are charged together, so a request the key's bucket refuses costs the caller nothing
+  const { allowed, retryAfterMs } = await getRateLimitStore().take(keys, bucket);
+  if (!allowed) {
+    throw new ProviderError(
+      `Too many requests. Try again in ${Math.ceil(retryAfterMs / 1000)}s.`,
+      429,
+      "rate_limited",
+      retryAfterMs
+    );
+  }
+}
+
+// GOOGLE_MAX_CONCURRENCY, FAL_MAX_CONCURRENCY, ... override each provider's default
+function getConcurrencyLimit({ id, maxConcurrentRequests }: LimitedProvider) {
+  return readLimit(`${id.toUpperCase()}_MAX_CONCURRENCY`, maxConcurrentRequests);
+}
+
+/**
+ * Claims one of the provider's concurrent request slots for each call a request will
+ * make, or throws a 429 when not enough are free. A request needing more than the
+ * whole limit claims all of it. The returned function gives the slots back and is
+ * safe to call twice.
+ */
+export async function acquireProviderSlot(provider: LimitedProvider, calls = 1): Promise<() => Promise<void>> {
+  const key = `provider:${provider.id}`;
+  const store = getRateLimitStore();
+  const limit = getConcurrencyLimit(provider);
+  const count = Math.max(1, Math.min(calls, limit));
+  if (!(await store.acquire(key, limit, count))) {
+    throw new ProviderError(
+      `${provider.label} is busy with other requests. Try again shortly.`,
+      429,
+      "rate_limited",
+      BUSY_RETRY_AFTER_MS
+    );
+  }
+
+  let released = false;
+  return async () => {
+    if (released) return;
+    released = true;
+    await store.release(key, count);
+  };
+}
+
+export async function withProviderSlot<T>(provider: LimitedProvider, run: () => Promise<T>, calls = 1): Promise<T> {
+  const release = await acquireProviderSlot(provider, calls);
+  try {
+    return await run();
+  } finally {
+    await release();
+  }
+}
@@ -0,0 +1,67 @@
+import type { RateLimitStore, TokenBucket } from "@/lib/rate-limit/types";
+
+// Buckets that have refilled completely are indistinguishable from new ones, so they're dropped past this size
+const MAX_TRACKED_BUCKETS = 10_000;
+
+interface BucketState {
+  bucket: TokenBucket;
+  tokens: number;
+  updatedAt: number;
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, BucketState>();
+  const inFlight = new Map<string, number>();
+
+  const refill = ({ bucket, tokens, updatedAt }: BucketState, now: number) =>
+    Math.min(bucket.capacity, tokens + (now - updatedAt) * bucket.refillPerMinute / 60_000);
+
+  const pruneFullBuckets = (now: number) => {
+    for (const [key, state] of buckets) {
+      if (refill(state, now) >= state.bucket.capacity) {
+        buckets.delete(key);
+      }
+    }
+  };
+
+  return {
+    async take(keys, bucket) {
+      const now = Date.now();
+      const balances = keys.map((key) => ({
+        key,
+        tokens: refill(buckets.get(key) ?? { bucket, tokens: bucket.capacity, updatedAt: now }, now)
+      }));
+
+      if (buckets.size > MAX_TRACKED_BUCKETS) {
+        pruneFullBuckets(now);
+      }
+
+      // Nothing is charged unless every bucket can pay
+      const empty = balances.filter(({ tokens }) => tokens < 1);
+      for (const { key, tokens } of balances) {
+        buckets.set(key, { bucket, tokens: empty.length > 0 ? tokens : tokens - 1, updatedAt: now });
+      }
+      if (empty.length > 0) {
+        const lowest = Math.min(...empty.map(({ tokens }) => tokens));
+        return { allowed: false, retryAfterMs: Math.ceil((1 - lowest) * 60_000 / bucket.refillPerMinute) };
+      }
+      return { allowed: true, retryAfterMs: 0 };
+    },
+
+    async acquire(key, limit, count) {
+      const running = inFlight.get(key) ?? 0;
+      if (running + count > limit) return false;
+      inFlight.set(key, running + count);
+      return true;
+    },
+
+    async release(key, count) {
+      const running = (inFlight.get(key) ?? 0) - count;
+      if (running > 0) {
+        inFlight.set(key, running);
+      } else {
+        inFlight.delete(key);
+      }
+    },
+  };
+}
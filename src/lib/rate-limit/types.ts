@@ -0,0 +1,22 @@
+export interface TokenBucket {
+  // Requests that can be made in a burst
+  capacity: number;
+  // Tokens added back per minute, up to capacity
+  refillPerMinute: number;
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  // When the bucket will next have a token; 0 when allowed
+  retryAfterMs: number;
+}
+
+// Where limiter state lives. The default is this process's memory; a deployment with
+// several server instances can share state by plugging in e.g. a Redis-backed store.
+export interface RateLimitStore {
+  // Takes a token from each key's bucket, or from none of them when any is empty
+  take(keys: string[], bucket: TokenBucket): Promise<TakeResult>;
+  // Counts `count` more in-flight requests under `key`, unless that would go over `limit`
+  acquire(key: string, limit: number, count: number): Promise<boolean>;
+  release(key: string, count: number): Promise<void>;
+}
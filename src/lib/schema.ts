@@ -0,0 +1,152 @@
+// A small runtime schema library: each schema checks an unknown JSON value and
+// describes its TypeScript type, so the API routes and the client share one
+// definition of every request and response.
+
+export interface FieldError {
+  // Path into the value, e.g. "referenceImages[1].role"
+  field: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  // Records a FieldError for each problem; the returned value is only meaningful when none were recorded
+  check(value: unknown, field: string, errors: FieldError[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export class SchemaError extends Error {
+  fieldErrors: FieldError[];
+
+  constructor(fieldErrors: FieldError[]) {
+    super(fieldErrors.map(({ field, message }) => `${field} ${message}`).join("; "));
+    this.name = "SchemaError";
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+export function parse<T>(schema: Schema<T>, value: unknown): T {
+  const errors: FieldError[] = [];
+  const result = schema.check(value, "body", errors);
+  if (errors.length > 0) {
+    throw new SchemaError(errors);
+  }
+  return result;
+}
+
+const childField = (field: string, key: string | number) =>
+  typeof key === "number" ? `${field}[${key}]` : field === "body" ? key : `${field}.${key}`;
+
+export function string(options: { minLength?: number; maxLength?: number; pattern?: RegExp } = {}): Schema<string> {
+  return {
+    check(value, field, errors) {
+      if (typeof value !== "string") {
+        errors.push({ field, message: "must be a string" });
+      } else if (options.minLength !== undefined && value.trim().length < options.minLength) {
+        errors.push({ field, message: options.minLength === 1 ? "is required" : `must be at least ${options.minLength} characters` });
+      } else if (options.maxLength !== undefined && value.length > options.maxLength) {
+        errors.push({ field, message: `must be at most ${options.maxLength} characters` });
+      } else if (options.pattern && !options.pattern.test(value)) {
+        errors.push({ field, message: "has an invalid format" });
+      }
+      return value as string;
+    },
+  };
+}
+
+export function number(options: { integer?: boolean; min?: number; max?: number } = {}): Schema<number> {
+  return {
+    check(value, field, errors) {
+      const { integer, min, max } = options;
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        errors.push({ field, message: "must be a number" });
+      } else if (integer && !Number.isInteger(value)) {
+        errors.push({ field, message: "must be a whole number" });
+      } else if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+        errors.push({
+          field,
+          message: min !== undefined && max !== undefined
+            ? `must be between ${min} and ${max}`
+            : min !== undefined ? `must be at least ${min}` : `must be at most ${max}`,
+        });
+      }
+      return value as number;
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    check(value, field, errors) {
+      if (typeof value !== "boolean") {
+        errors.push({ field, message: "must be true or false" });
+      }
+      return value as boolean;
+    },
+  };
+}
+
+export function oneOf<const T extends string | number>(values: readonly T[]): Schema<T> {
+  return {
+    check(value, field, errors) {
+      if (!values.includes(value as T)) {
+        errors.push({ field, message: `must be one of ${values.join(", ")}` });
+      }
+      return value as T;
+    },
+  };
+}
+
+// JSON clients often send null for "not set", so it is treated like a missing field
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    check(value, field, errors) {
+      return value === undefined || value === null ? undefined : schema.check(value, field, errors);
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>, options: { maxLength?: number } = {}): Schema<T[]> {
+  return {
+    check(value, field, errors) {
+      if (!Array.isArray(value)) {
+        errors.push({ field, message: "must be an array" });
+        return [];
+      }
+      if (options.maxLength !== undefined && value.length > options.maxLength) {
+        errors.push({ field, message: `must have at most ${options.maxLength} items` });
+        return [];
+      }
+      return value.map((entry, index) => item.check(entry, childField(field, index), errors));
+    },
+  };
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+// Fields whose schema accepts undefined become optional properties
+type ObjectType<S extends Shape> = {
+  [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>;
+} & {
+  [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]>;
+} extends infer O ? { [K in keyof O]: O[K] } : never;
+
+// Unknown properties are dropped rather than rejected, so older clients keep working
+export function object<S extends Shape>(shape: S): Schema<ObjectType<S>> {
+  return {
+    check(value, field, errors) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        errors.push({ field, message: "must be an object" });
+        return {} as ObjectType<S>;
+      }
+      const result: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        const checked = schema.check((value as Record<string, unknown>)[key], childField(field, key), errors);
+        if (checked !== undefined) {
+          result[key] = checked;
+        }
+      }
+      return result as ObjectType<S>;
+    },
+  };
+}
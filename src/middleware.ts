@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CLIENT_ID_COOKIE, CLIENT_ID_COOKIE_MAX_AGE_S, CLIENT_ID_PATTERN } from "@/lib/rate-limit/client-id";
+
+// Gives each browser its rate limit id on its first page load, before it calls the API
+export function middleware(request: NextRequest) {
+  const response = NextResponse.next();
+  if (!CLIENT_ID_PATTERN.test(request.cookies.get(CLIENT_ID_COOKIE)?.value ?? "")) {
+    response.cookies.set(CLIENT_ID_COOKIE, crypto.randomUUID(), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: request.nextUrl.protocol === "https:",
+      path: "/",
+      maxAge: CLIENT_ID_COOKIE_MAX_AGE_S,
+    });
+  }
+  return response;
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.png).*)"],
+};